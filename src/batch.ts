@@ -0,0 +1,221 @@
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { optionFiles, type ConversionWarning, type ConvertOptions, type MdToDocxConverter } from "./converter.js";
+import { globToRegExp, matchesGlob } from "./glob.js";
+import { naturalSort, type BookOptions } from "./manifest.js";
+import { containsMermaid } from "./mermaid-blocks.js";
+import { watchedFiles } from "./watcher.js";
+
+export interface BatchOptions extends ConvertOptions, Pick<BookOptions, "include" | "exclude"> {
+  /**
+   * Files converted at the same time. They share the converter's code highlighter and Mermaid browser.
+   * @default 4
+   */
+  concurrency?: number;
+
+  /** Convert every file, even those unchanged since the last run */
+  force?: boolean;
+
+  /** Called as each file is done */
+  onProgress?: (item: BatchItem) => void;
+}
+
+export interface BatchItem {
+  /** Markdown file */
+  input: string;
+  /** DOCX file */
+  output: string;
+  /** `skipped` when neither the file, its images nor the options changed since the last run */
+  status: "converted" | "skipped" | "failed";
+  error?: string;
+  warnings: ConversionWarning[];
+}
+
+export interface BatchResult {
+  /** Directory the input paths are mirrored from */
+  baseDir: string;
+  /** One item per Markdown file, in natural order */
+  items: BatchItem[];
+  converted: number;
+  skipped: number;
+  failed: number;
+}
+
+interface FileState {
+  mtimeMs: number;
+  size: number;
+  hash: string;
+  /** Fingerprint of the local images the file references */
+  images: string;
+}
+
+interface BatchState {
+  /** Fingerprint of the conversion options and the files they name; a change converts everything again */
+  options: string;
+  files: Record<string, FileState>;
+}
+
+/**
+ * Markdown files of a batch input: a file, a directory (searched recursively) or a glob such as `docs/*.md`.
+ * Globs support `*`, `**`, `?` and `{a,b}`.
+ * @returns the files and the directory their output paths are mirrored from
+ */
+export function batchFiles(input: string, options: Pick<BatchOptions, "include" | "exclude"> = {}): {
+  baseDir: string;
+  files: string[];
+} {
+  const normalized = input.replace(/\\/g, "/");
+  const segments = normalized.split("/");
+  const globIndex = segments.findIndex((segment) => /[*?{]/.test(segment));
+
+  let baseDir: string;
+  let pattern: string;
+  if (globIndex === -1) {
+    const absolutePath = path.resolve(input);
+    if (!fs.existsSync(absolutePath)) {
+      throw new Error(`Input not found: ${absolutePath}`);
+    }
+    if (!fs.statSync(absolutePath).isDirectory()) {
+      return { baseDir: path.dirname(absolutePath), files: [absolutePath] };
+    }
+    baseDir = absolutePath;
+    pattern = "**/*.md";
+  } else {
+    baseDir = path.resolve(segments.slice(0, globIndex).join("/") || ".");
+    pattern = segments.slice(globIndex).join("/");
+  }
+
+  // A pattern without a slash only matches files directly in the base directory
+  const matcher = globToRegExp(pattern);
+  const recursive = pattern.includes("/");
+  const { include = [], exclude = [] } = options;
+  const files: string[] = [];
+  const walk = (dir: string) => {
+    if (!fs.existsSync(dir)) return;
+    for (const item of fs.readdirSync(dir, { withFileTypes: true })) {
+      const itemPath = path.join(dir, item.name);
+      if (item.isDirectory()) {
+        if (recursive && !item.name.startsWith(".") && item.name !== "node_modules") walk(itemPath);
+        continue;
+      }
+      const relativePath = path.relative(baseDir, itemPath).replace(/\\/g, "/");
+      if (
+        matcher.test(relativePath) &&
+        (include.length === 0 || matchesGlob(relativePath, include)) &&
+        !matchesGlob(relativePath, exclude)
+      ) {
+        files.push(itemPath);
+      }
+    }
+  };
+  walk(baseDir);
+
+  return { baseDir, files: files.sort((a, b) => naturalSort(path.relative(baseDir, a), path.relative(baseDir, b))) };
+}
+
+function readState(file: string): BatchState | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8")) as BatchState;
+  } catch {
+    // Missing or unreadable state converts everything
+    return undefined;
+  }
+}
+
+function hashFile(file: string): string {
+  return crypto.createHash("sha256").update(fs.readFileSync(file)).digest("hex");
+}
+
+/**
+ * Fingerprint of a value and the modification time and size of some files; missing files count too
+ */
+function fingerprint(value: unknown, files: string[]): string {
+  const stamps = files.map((file) => {
+    try {
+      const stat = fs.statSync(file);
+      return [file, stat.mtimeMs, stat.size];
+    } catch {
+      return [file, null];
+    }
+  });
+  return crypto.createHash("sha256").update(JSON.stringify([value, stamps])).digest("hex");
+}
+
+/**
+ * Convert each Markdown file of the input to its own DOCX, mirroring the input's folders in `outputDir`.
+ * Files that did not change since the last run (same modification time and size, or same content) are skipped,
+ * unless an image they reference, the options or a file the options name (such as the reference document) changed.
+ * The state of the last run is kept in the converter's cache directory. A failing file does not stop the others.
+ */
+export async function convertBatch(
+  converter: MdToDocxConverter,
+  input: string,
+  outputDir: string,
+  options: BatchOptions = {}
+): Promise<BatchResult> {
+  const { concurrency = 4, force = false, onProgress, include, exclude, ...convertOptions } = options;
+  const { baseDir, files } = batchFiles(input, { include, exclude });
+  const absoluteOutputDir = path.resolve(outputDir);
+
+  // One state per input and output directory, outside both
+  const stateKey = crypto.createHash("sha256").update(JSON.stringify([baseDir, absoluteOutputDir])).digest("hex");
+  const stateFile = path.join(converter.cacheDir, "batch", `${stateKey}.json`);
+  const optionsFingerprint = fingerprint(convertOptions, optionFiles(convertOptions));
+  const previous = readState(stateFile);
+  const previousFiles = previous?.options === optionsFingerprint ? previous.files : {};
+  const state: BatchState = { options: optionsFingerprint, files: {} };
+
+  const convertOne = async (file: string): Promise<BatchItem> => {
+    const relativePath = path.relative(baseDir, file);
+    const output = path.join(absoluteOutputDir, relativePath.replace(/\.md$/i, "") + ".docx");
+    try {
+      const stat = fs.statSync(file);
+      const images = fingerprint(null, watchedFiles(file).filter((dependency) => dependency !== file));
+      const known = previousFiles[relativePath];
+      let hash: string | undefined;
+      if (!force && known && known.images === images && fs.existsSync(output)) {
+        const touched = known.mtimeMs !== stat.mtimeMs || known.size !== stat.size;
+        // A newer modification time alone (e.g. after a checkout) does not convert again
+        hash = touched ? hashFile(file) : known.hash;
+        if (hash === known.hash) {
+          state.files[relativePath] = { mtimeMs: stat.mtimeMs, size: stat.size, hash, images };
+          return { input: file, output, status: "skipped", warnings: [] };
+        }
+      }
+
+      const content = fs.readFileSync(file, "utf-8");
+      const result = await converter.convertFile(file, output, {
+        ...convertOptions,
+        enableMermaid: convertOptions.enableMermaid ?? containsMermaid(content),
+      });
+      state.files[relativePath] = { mtimeMs: stat.mtimeMs, size: stat.size, hash: hash ?? hashFile(file), images };
+      return { input: file, output, status: "converted", warnings: result.warnings };
+    } catch (error) {
+      return { input: file, output, status: "failed", error: (error as Error).message, warnings: [] };
+    }
+  };
+
+  // A fixed number of workers take the next file until none are left
+  const items: BatchItem[] = new Array(files.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < files.length) {
+      const index = next++;
+      items[index] = await convertOne(files[index]);
+      onProgress?.(items[index]);
+    }
+  };
+  // The diagram cache is pruned once, after all workers are done
+  await converter.runBatch(() =>
+    Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), files.length) }, worker))
+  );
+
+  if (files.length > 0) {
+    fs.mkdirSync(path.dirname(stateFile), { recursive: true });
+    fs.writeFileSync(stateFile, JSON.stringify(state, null, 2));
+  }
+
+  const count = (status: BatchItem["status"]) => items.filter((item) => item.status === status).length;
+  return { baseDir, items, converted: count("converted"), skipped: count("skipped"), failed: count("failed") };
+}
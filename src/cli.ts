@@ -1,6 +1,18 @@
 #!/usr/bin/env node
 
-import { MdToDocxConverter } from "./converter.js";
+import { MdToDocxConverter, optionFiles, type MermaidErrorMode } from "./converter.js";
+import type { StyleMap } from "./style-plugin.js";
+import { parseSlots } from "./header-footer.js";
+import type { MermaidOptions } from "./mermaid-options.js";
+import { MermaidCache, type MermaidCacheOptions } from "./mermaid-cache.js";
+import { containsMermaid } from "./mermaid-blocks.js";
+import { watch } from "./watcher.js";
+import { batchFiles, convertBatch } from "./batch.js";
+import { findProjectConfig, loadProjectConfig, mergeOptions, type ProjectConfigOptions } from "./project-config.js";
+import { resolveBook } from "./manifest.js";
+import type { HeadingOptions } from "./headings.js";
+import type { TableBorders, TableColumnWidths, TableOptions } from "./table-plugin.js";
+import type { CodeBlockOptions, CodeContainer, CodeOverflow } from "./code-plugin.js";
 import * as path from "node:path";
 import * as fs from "node:fs";
 import { t, setLanguage, detectSystemLanguage, type Language } from "./i18n.js";
@@ -30,9 +42,46 @@ interface CliOptions {
   input: string;
   output?: string;
   mermaid: boolean | "auto";
-  separator: "pagebreak" | "hr" | "none";
+  separator?: "pagebreak" | "hr" | "none";
+  manifest?: string | false;
+  recursive: boolean;
+  folderHeadings: boolean;
+  include: string[];
+  exclude: string[];
   noMermaid: boolean;
+  config?: string;
+  noConfig: boolean;
+  profile?: string;
   lang?: Language;
+  referenceDoc?: string;
+  styleMap?: StyleMap;
+  toc: boolean;
+  tocDepth?: number;
+  tocTitle?: string;
+  titlePage: boolean;
+  figures: boolean;
+  figureLabel?: string;
+  listOfFigures: boolean;
+  altCaptions: boolean;
+  titleLogo?: string;
+  header?: string;
+  footer?: string;
+  differentFirstPage: boolean;
+  mermaidConcurrency?: number;
+  mermaidFormat?: "png" | "svg";
+  onMermaidError?: MermaidErrorMode;
+  codeTheme?: string;
+  codeGrammars: string[];
+  codeLanguageAliases?: Record<string, string>;
+  codeBlockOptions: CodeBlockOptions;
+  mermaidOptions: MermaidOptions;
+  tableOptions: TableOptions;
+  headingOptions: HeadingOptions;
+  cacheOptions: MermaidCacheOptions;
+  watch: boolean;
+  batch: boolean;
+  jobs?: number;
+  force: boolean;
 }
 
 function log(message: string): void {
@@ -47,6 +96,10 @@ function logSuccess(message: string): void {
   console.log(`${colors.green}${icons.success}${colors.reset} ${message}`);
 }
 
+function logWarning(message: string): void {
+  console.warn(`${colors.yellow}!${colors.reset} ${message}`);
+}
+
 function logError(message: string): void {
   console.error(`${colors.red}✗${colors.reset} ${message}`);
 }
@@ -57,46 +110,212 @@ function logFile(index: number, filename: string, hasMermaid: boolean): void {
 }
 
 /**
- * Check if content contains Mermaid blocks
+ * Check if file or files in directory contain Mermaid
  */
-function containsMermaid(content: string): boolean {
-  return /```mermaid\n[\s\S]*?```/.test(content);
+function detectMermaid(files: string[]): boolean {
+  return files.some(file => containsMermaid(fs.readFileSync(file, "utf-8")));
 }
 
+const STYLE_MAP_KEYS: (keyof StyleMap)[] = ["paragraph", "blockquote", "code", "table", "caption"];
+const TABLE_BORDERS: TableBorders[] = ["all", "horizontal", "outer", "none"];
+const TABLE_COLUMN_WIDTHS: TableColumnWidths[] = ["auto", "content", "equal"];
+const CODE_CONTAINERS: CodeContainer[] = ["paragraphs", "table"];
+const CODE_OVERFLOWS: CodeOverflow[] = ["wrap", "shrink"];
+
 /**
- * Check if file or files in directory contain Mermaid
+ * Parse a style map argument such as "code=SourceCode,table=GridTable"
  */
-function detectMermaid(inputPath: string): boolean {
-  const stat = fs.statSync(inputPath);
-
-  if (stat.isDirectory()) {
-    const files = fs.readdirSync(inputPath).filter(f => f.endsWith(".md"));
-    return files.some(file => {
-      const content = fs.readFileSync(path.join(inputPath, file), "utf-8");
-      return containsMermaid(content);
-    });
-  } else {
-    const content = fs.readFileSync(inputPath, "utf-8");
-    return containsMermaid(content);
+function parseStyleMap(value: string | undefined): StyleMap {
+  const styleMap: StyleMap = {};
+  for (const entry of (value || "").split(",")) {
+    const [key, styleId] = entry.split("=").map(part => part.trim());
+    if (!STYLE_MAP_KEYS.includes(key as keyof StyleMap) || !styleId) {
+      logError(`Invalid style map entry: ${entry}. Use <${STYLE_MAP_KEYS.join("|")}>=<styleId>.`);
+      process.exit(1);
+    }
+    styleMap[key as keyof StyleMap] = styleId;
   }
+  return styleMap;
+}
+
+/**
+ * Parse language aliases such as "tf=terraform,pipeline=yaml"
+ */
+function parseLanguageAliases(value: string | undefined): Record<string, string> {
+  const aliases: Record<string, string> = {};
+  for (const entry of (value || "").split(",")) {
+    const [alias, lang] = entry.split("=").map(part => part.trim());
+    if (!alias || !lang) {
+      logError(`Invalid language alias: ${entry}. Use <alias>=<language>.`);
+      process.exit(1);
+    }
+    aliases[alias] = lang;
+  }
+  return aliases;
 }
 
 function parseArgs(args: string[]): CliOptions {
   const options: CliOptions = {
     input: "",
     mermaid: "auto",
-    separator: "pagebreak",
     noMermaid: false,
+    noConfig: false,
+    toc: false,
+    titlePage: false,
+    figures: false,
+    listOfFigures: false,
+    altCaptions: false,
+    differentFirstPage: false,
+    mermaidOptions: {},
+    tableOptions: {},
+    headingOptions: {},
+    codeBlockOptions: {},
+    cacheOptions: {},
+    codeGrammars: [],
+    watch: false,
+    batch: false,
+    force: false,
+    recursive: false,
+    folderHeadings: false,
+    include: [],
+    exclude: [],
   };
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     if (arg === "-o" || arg === "--output") {
       options.output = args[++i];
+    } else if (arg === "-c" || arg === "--config") {
+      options.config = args[++i];
+    } else if (arg === "--no-config") {
+      options.noConfig = true;
+    } else if (arg === "-p" || arg === "--profile") {
+      options.profile = args[++i];
+    } else if (arg === "-w" || arg === "--watch") {
+      options.watch = true;
+    } else if (arg === "--batch") {
+      options.batch = true;
+    } else if (arg === "-j" || arg === "--jobs") {
+      const value = parseInt(args[++i], 10);
+      if (isNaN(value) || value < 1) {
+        logError(`Invalid value for ${arg}: ${args[i]}. Use a number of at least 1.`);
+        process.exit(1);
+      }
+      options.jobs = value;
+    } else if (arg === "--force") {
+      options.force = true;
     } else if (arg === "-m" || arg === "--mermaid") {
       options.mermaid = true;
     } else if (arg === "--no-mermaid") {
       options.noMermaid = true;
+    } else if (arg === "--mermaid-concurrency") {
+      const concurrency = parseInt(args[++i], 10);
+      if (isNaN(concurrency) || concurrency < 1) {
+        logError(`Invalid Mermaid concurrency: ${args[i]}. Use a positive number.`);
+        process.exit(1);
+      }
+      options.mermaidConcurrency = concurrency;
+    } else if (arg === "--mermaid-format") {
+      const format = args[++i];
+      if (format === "png" || format === "svg") {
+        options.mermaidFormat = format;
+      } else {
+        logError(`Invalid Mermaid format: ${format}. Use 'png' or 'svg'.`);
+        process.exit(1);
+      }
+    } else if (arg === "--on-mermaid-error") {
+      const mode = args[++i];
+      if (mode === "fail" || mode === "placeholder" || mode === "source") {
+        options.onMermaidError = mode;
+      } else {
+        logError(`Invalid Mermaid error mode: ${mode}. Use 'fail', 'placeholder' or 'source'.`);
+        process.exit(1);
+      }
+    } else if (arg === "--mermaid-theme") {
+      options.mermaidOptions.theme = args[++i];
+    } else if (arg === "--mermaid-background") {
+      options.mermaidOptions.background = args[++i];
+    } else if (arg === "--mermaid-scale" || arg === "--mermaid-width") {
+      const value = parseFloat(args[++i]);
+      if (isNaN(value) || value <= 0) {
+        logError(`Invalid value for ${arg}: ${args[i]}. Use a positive number.`);
+        process.exit(1);
+      }
+      options.mermaidOptions[arg === "--mermaid-scale" ? "scale" : "width"] = value;
+    } else if (arg === "--mermaid-config") {
+      options.mermaidOptions.configFile = args[++i];
+    } else if (arg === "--mermaid-css") {
+      options.mermaidOptions.cssFile = args[++i];
+    } else if (arg === "--cache-dir") {
+      options.cacheOptions.dir = args[++i];
+    } else if (arg === "--cache-max-size" || arg === "--cache-max-age") {
+      const value = parseFloat(args[++i]);
+      if (isNaN(value) || value <= 0) {
+        logError(`Invalid value for ${arg}: ${args[i]}. Use a positive number.`);
+        process.exit(1);
+      }
+      if (arg === "--cache-max-size") {
+        options.cacheOptions.maxSize = value * 1024 * 1024;
+      } else {
+        options.cacheOptions.maxAge = value * 24 * 60 * 60 * 1000;
+      }
+    } else if (arg === "--code-theme") {
+      options.codeTheme = args[++i];
+    } else if (arg === "--code-grammar") {
+      options.codeGrammars.push(args[++i]);
+    } else if (arg === "--code-alias") {
+      options.codeLanguageAliases = { ...options.codeLanguageAliases, ...parseLanguageAliases(args[++i]) };
+    } else if (arg === "--code-container") {
+      const container = args[++i];
+      if (!CODE_CONTAINERS.includes(container as CodeContainer)) {
+        logError(`Invalid code container: ${container}. Use one of: ${CODE_CONTAINERS.join(", ")}.`);
+        process.exit(1);
+      }
+      options.codeBlockOptions.container = container as CodeContainer;
+    } else if (arg === "--code-border") {
+      const color = args[++i];
+      options.codeBlockOptions.borderColor = color === "none" ? false : color;
+    } else if (arg === "--code-padding") {
+      const value = parseFloat(args[++i]);
+      if (isNaN(value) || value < 0) {
+        logError(`Invalid value for ${arg}: ${args[i]}. Use a number of points.`);
+        process.exit(1);
+      }
+      options.codeBlockOptions.padding = value;
+    } else if (arg === "--code-keep-together") {
+      options.codeBlockOptions.keepTogether = true;
+    } else if (arg === "--code-overflow") {
+      const overflow = args[++i];
+      if (!CODE_OVERFLOWS.includes(overflow as CodeOverflow)) {
+        logError(`Invalid code overflow: ${overflow}. Use one of: ${CODE_OVERFLOWS.join(", ")}.`);
+        process.exit(1);
+      }
+      options.codeBlockOptions.overflow = overflow as CodeOverflow;
+    } else if (arg === "--table-label") {
+      options.tableOptions.label = args[++i];
+    } else if (arg === "--no-table-captions") {
+      options.tableOptions.captions = false;
+    } else if (arg === "--table-header-fill") {
+      const fill = args[++i];
+      options.tableOptions.headerFill = fill === "none" ? false : fill;
+    } else if (arg === "--table-banded") {
+      options.tableOptions.bandedRows = true;
+    } else if (arg === "--table-borders") {
+      const borders = args[++i];
+      if (!TABLE_BORDERS.includes(borders as TableBorders)) {
+        logError(`Invalid table borders: ${borders}. Use one of: ${TABLE_BORDERS.join(", ")}.`);
+        process.exit(1);
+      }
+      options.tableOptions.borders = borders as TableBorders;
+    } else if (arg === "--table-widths") {
+      const widths = args[++i];
+      if (!TABLE_COLUMN_WIDTHS.includes(widths as TableColumnWidths)) {
+        logError(`Invalid table widths: ${widths}. Use one of: ${TABLE_COLUMN_WIDTHS.join(", ")}.`);
+        process.exit(1);
+      }
+      options.tableOptions.columnWidths = widths as TableColumnWidths;
+    } else if (arg === "--no-table-header-repeat") {
+      options.tableOptions.repeatHeader = false;
     } else if (arg === "-s" || arg === "--separator") {
       const sep = args[++i];
       if (sep === "pagebreak" || sep === "hr" || sep === "none") {
@@ -105,6 +324,69 @@ function parseArgs(args: string[]): CliOptions {
         logError(`Invalid separator: ${sep}. Use 'pagebreak', 'hr', or 'none'.`);
         process.exit(1);
       }
+    } else if (arg === "--manifest") {
+      options.manifest = args[++i];
+    } else if (arg === "--no-manifest") {
+      options.manifest = false;
+    } else if (arg === "--heading-offset") {
+      const value = args[++i];
+      const offset = parseInt(value, 10);
+      if (value !== "auto" && (isNaN(offset) || String(offset) !== value)) {
+        logError(`Invalid value for ${arg}: ${value}. Use a whole number or auto.`);
+        process.exit(1);
+      }
+      options.headingOptions.offset = value === "auto" ? "auto" : offset;
+    } else if (arg === "--normalize-headings") {
+      options.headingOptions.normalize = true;
+    } else if (arg === "--chapter-titles") {
+      options.headingOptions.chapterTitles = true;
+    } else if (arg === "-r" || arg === "--recursive") {
+      options.recursive = true;
+    } else if (arg === "--folder-headings") {
+      options.folderHeadings = true;
+    } else if (arg === "--include") {
+      options.include.push(args[++i]);
+    } else if (arg === "--exclude") {
+      options.exclude.push(args[++i]);
+    } else if (arg === "--reference-doc") {
+      options.referenceDoc = args[++i];
+    } else if (arg === "--style-map") {
+      options.styleMap = parseStyleMap(args[++i]);
+    } else if (arg === "--toc") {
+      options.toc = true;
+    } else if (arg === "--toc-depth") {
+      const depth = parseInt(args[++i], 10);
+      if (isNaN(depth) || depth < 1 || depth > 6) {
+        logError(`Invalid TOC depth: ${args[i]}. Use a number from 1 to 6.`);
+        process.exit(1);
+      }
+      options.toc = true;
+      options.tocDepth = depth;
+    } else if (arg === "--toc-title") {
+      options.toc = true;
+      options.tocTitle = args[++i];
+    } else if (arg === "--figures") {
+      options.figures = true;
+    } else if (arg === "--figure-label") {
+      options.figures = true;
+      options.figureLabel = args[++i];
+    } else if (arg === "--list-of-figures") {
+      options.figures = true;
+      options.listOfFigures = true;
+    } else if (arg === "--alt-captions") {
+      options.figures = true;
+      options.altCaptions = true;
+    } else if (arg === "--title-page") {
+      options.titlePage = true;
+    } else if (arg === "--title-logo") {
+      options.titlePage = true;
+      options.titleLogo = args[++i];
+    } else if (arg === "--header") {
+      options.header = args[++i];
+    } else if (arg === "--footer") {
+      options.footer = args[++i];
+    } else if (arg === "--different-first-page") {
+      options.differentFirstPage = true;
     } else if (arg === "-l" || arg === "--lang") {
       const lang = args[++i];
       if (lang === "en" || lang === "zh-TW" || lang === "zh") {
@@ -128,12 +410,71 @@ ${colors.bright}mermadoc${colors.reset} - ${t("cliTitle")}
 ${colors.yellow}${t("cliUsage")}${colors.reset}
   mermadoc <file.md>              ${t("cliExConvertSingle")}
   mermadoc <directory>            ${t("cliExMergeDir")}
+  mermadoc <glob|dir> --batch     ${t("cliExBatch")}
+  mermadoc cache stats|clear      ${t("cliExCache")}
 
 ${colors.yellow}${t("cliOptions")}${colors.reset}
   -o, --output <file>     ${t("cliOptOutput")}
   -s, --separator <type>  ${t("cliOptSeparator")}
+  --reference-doc <file>  ${t("cliOptReferenceDoc")}
+  --style-map <map>       ${t("cliOptStyleMap")}
+  --toc                   ${t("cliOptToc")}
+  --toc-depth <n>         ${t("cliOptTocDepth")}
+  --toc-title <text>      ${t("cliOptTocTitle")}
+  --figures               ${t("cliOptFigures")}
+  --figure-label <text>   ${t("cliOptFigureLabel")}
+  --list-of-figures       ${t("cliOptListOfFigures")}
+  --alt-captions          ${t("cliOptAltCaptions")}
+  --code-theme <name>     ${t("cliOptCodeTheme")}
+  --code-grammar <file>   ${t("cliOptCodeGrammar")}
+  --code-alias <map>      ${t("cliOptCodeAlias")}
+  --code-container <mode> ${t("cliOptCodeContainer")}
+  --code-border <c>       ${t("cliOptCodeBorder")}
+  --code-padding <pt>     ${t("cliOptCodePadding")}
+  --code-keep-together    ${t("cliOptCodeKeepTogether")}
+  --code-overflow <mode>  ${t("cliOptCodeOverflow")}
+  --table-label <text>    ${t("cliOptTableLabel")}
+  --no-table-captions     ${t("cliOptNoTableCaptions")}
+  --table-header-fill <c> ${t("cliOptTableHeaderFill")}
+  --table-banded          ${t("cliOptTableBanded")}
+  --table-borders <type>  ${t("cliOptTableBorders")}
+  --table-widths <mode>   ${t("cliOptTableWidths")}
+  --no-table-header-repeat ${t("cliOptNoTableHeaderRepeat")}
+  --title-page            ${t("cliOptTitlePage")}
+  --title-logo <file>     ${t("cliOptTitleLogo")}
+  --header <slots>        ${t("cliOptHeader")}
+  --footer <slots>        ${t("cliOptFooter")}
+  --different-first-page  ${t("cliOptDifferentFirstPage")}
   -l, --lang <lang>       Language: en, zh-TW
   --no-mermaid            ${t("cliOptNoMermaid")}
+  --mermaid-format <fmt>  ${t("cliOptMermaidFormat")}
+  --on-mermaid-error <mode> ${t("cliOptOnMermaidError")}
+  --mermaid-theme <name>  ${t("cliOptMermaidTheme")}
+  --mermaid-background <color> ${t("cliOptMermaidBackground")}
+  --mermaid-scale <n>     ${t("cliOptMermaidScale")}
+  --mermaid-width <px>    ${t("cliOptMermaidWidth")}
+  --mermaid-config <file> ${t("cliOptMermaidConfig")}
+  --mermaid-css <file>    ${t("cliOptMermaidCss")}
+  --mermaid-concurrency <n> ${t("cliOptMermaidConcurrency")}
+  --cache-dir <dir>       ${t("cliOptCacheDir")}
+  --cache-max-size <mb>   ${t("cliOptCacheMaxSize")}
+  --cache-max-age <days>  ${t("cliOptCacheMaxAge")}
+  -w, --watch             ${t("cliOptWatch")}
+  --batch                 ${t("cliOptBatch")}
+  -j, --jobs <n>          ${t("cliOptJobs")}
+  --force                 ${t("cliOptForce")}
+  -c, --config <file>     ${t("cliOptConfig")}
+  --no-config             ${t("cliOptNoConfig")}
+  --manifest <file>       ${t("cliOptManifest")}
+  --no-manifest           ${t("cliOptNoManifest")}
+  -r, --recursive         ${t("cliOptRecursive")}
+  --folder-headings       ${t("cliOptFolderHeadings")}
+  --include <glob>        ${t("cliOptInclude")}
+  --exclude <glob>        ${t("cliOptExclude")}
+  --heading-offset <n>    ${t("cliOptHeadingOffset")}
+  --normalize-headings    ${t("cliOptNormalizeHeadings")}
+  --chapter-titles        ${t("cliOptChapterTitles")}
+  -p, --profile <name>    ${t("cliOptProfile")}
   -h, --help              ${t("cliOptHelp")}
 
 ${colors.yellow}${t("cliExamples")}${colors.reset}
@@ -146,10 +487,292 @@ ${colors.yellow}${t("cliExamples")}${colors.reset}
   ${colors.dim}${t("cliExWithSeparator")}${colors.reset}
   mermadoc ./reports -o manual.docx -s hr
 
+  ${colors.dim}${t("cliExReferenceDoc")}${colors.reset}
+  mermadoc ./reports --reference-doc template.docx --style-map code=SourceCode
+
+  ${colors.dim}${t("cliExPageNumbers")}${colors.reset}
+  mermadoc ./reports --footer "{title}||Page {page} of {pages}"
+
+  ${colors.dim}${t("cliExBatch")}${colors.reset}
+  mermadoc "docs/**/*.md" --batch -o build/docx
+
 ${colors.dim}${t("cliTip")}${colors.reset}
 `);
 }
 
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * `mermadoc cache stats|clear`
+ */
+function runCacheCommand(command: string | undefined, options: MermaidCacheOptions): void {
+  const cache = new MermaidCache(options);
+
+  if (command === "stats") {
+    const stats = cache.stats();
+    log(`${t("cacheDirectory")} ${stats.dir}`);
+    log(`${t("cacheFiles")} ${stats.files}`);
+    log(`${t("cacheSize")} ${formatSize(stats.size)}`);
+    if (stats.oldest) {
+      log(`${t("cacheOldest")} ${stats.oldest.toLocaleString()}`);
+    }
+  } else if (command === "clear") {
+    logSuccess(`${t("cacheCleared")} ${cache.clear()}`);
+  } else {
+    logError(t("cacheUnknownCommand"));
+    process.exit(1);
+  }
+}
+
+/**
+ * Conversion options given on the command line. Options that were not given are undefined,
+ * so they do not override the config file.
+ */
+function cliConvertOptions(options: CliOptions): ProjectConfigOptions {
+  const given = <T>(value: T | false): T | undefined => value || undefined;
+  return {
+    output: options.output,
+    enableMermaid: options.noMermaid ? false : given(options.mermaid === true),
+    mermaidFormat: options.mermaidFormat,
+    onMermaidError: options.onMermaidError,
+    mermaid: options.mermaidOptions,
+    separator: options.separator,
+    manifest: options.manifest,
+    recursive: options.recursive || undefined,
+    folderHeadings: options.folderHeadings || undefined,
+    include: options.include.length > 0 ? options.include : undefined,
+    exclude: options.exclude.length > 0 ? options.exclude : undefined,
+    referenceDocx: options.referenceDoc,
+    styleMap: options.styleMap,
+    toc: options.toc ? { depth: options.tocDepth, title: options.tocTitle } : undefined,
+    figures: options.figures
+      ? { label: options.figureLabel, listOfFigures: given(options.listOfFigures), fromAlt: given(options.altCaptions) }
+      : undefined,
+    tables: options.tableOptions,
+    headings: options.headingOptions,
+    codeTheme: options.codeTheme,
+    codeGrammars: options.codeGrammars.length > 0 ? options.codeGrammars : undefined,
+    codeLanguageAliases: options.codeLanguageAliases,
+    codeBlocks: options.codeBlockOptions,
+    titlePage: options.titlePage ? { logo: options.titleLogo } : undefined,
+    headerFooter:
+      options.header || options.footer || options.differentFirstPage
+        ? {
+            header: options.header ? parseSlots(options.header) : undefined,
+            footer: options.footer ? parseSlots(options.footer) : undefined,
+            differentFirstPage: given(options.differentFirstPage),
+          }
+        : undefined,
+    converter: { mermaid: { concurrency: options.mermaidConcurrency }, cache: options.cacheOptions },
+  };
+}
+
+/**
+ * Options from the project config file (and profile), overridden by the command line
+ */
+function resolveOptions(
+  inputPath: string,
+  options: CliOptions
+): { configFile?: string; options: ProjectConfigOptions } {
+  const configFile = options.noConfig ? undefined : (options.config ?? findProjectConfig(inputPath));
+  if (options.profile && !configFile) {
+    throw new Error(`${t("configProfileWithoutFile")} ${options.profile}`);
+  }
+  const config = configFile ? loadProjectConfig(configFile, options.profile) : {};
+  return { configFile, options: mergeOptions(config, cliConvertOptions(options)) };
+}
+
+/**
+ * Convert the input once, logging progress and warnings
+ */
+async function build(converter: MdToDocxConverter, inputPath: string, options: CliOptions): Promise<void> {
+  // Read again on every build, so watch mode picks up config changes
+  const { configFile, options: resolved } = resolveOptions(inputPath, options);
+  const { output, converter: _converter, ...convertOptions } = resolved;
+  const isDirectory = fs.statSync(inputPath).isDirectory();
+  // Chapters in the order they are merged
+  const book = isDirectory ? resolveBook(inputPath, convertOptions) : undefined;
+  const files = book
+    ? book.entries.flatMap((entry) => (entry.type === "chapter" ? [entry.file] : []))
+    : [inputPath];
+  // Auto mode: detect if Mermaid exists
+  const enableMermaid = convertOptions.enableMermaid ?? detectMermaid(files);
+
+  if (configFile) {
+    const profile = options.profile ? ` (${t("configProfile")} ${options.profile})` : "";
+    log("");
+    logInfo(`${t("configUsing")} ${path.relative(process.cwd(), configFile)}${profile}`);
+  }
+
+  if (book) {
+    // Directory mode: merge all .md files, or the chapters of the manifest
+    const dirName = path.basename(inputPath);
+    const outputPath = output ? path.resolve(output) : path.join(path.dirname(inputPath), `${dirName}.docx`);
+
+    if (files.length === 0) {
+      throw new Error(`${t("noMdFiles")}: ${inputPath}`);
+    }
+
+    log("");
+    log(`${colors.bright}${icons.folder} ${t("cliMergeFiles")}${colors.reset}`);
+    if (book.manifest) {
+      logInfo(`${t("cliManifest")} ${path.relative(process.cwd(), book.manifest)}`);
+    }
+    log(`${colors.dim}───────────────────────────────${colors.reset}`);
+
+    // Display file list, indicate if contains Mermaid
+    let number = 0;
+    for (const entry of book.entries) {
+      if (entry.type === "part") {
+        log(`${"  ".repeat((entry.depth ?? 1) - 1)}${colors.bright}${entry.title}${colors.reset}`);
+        continue;
+      }
+      const hasMermaid = containsMermaid(fs.readFileSync(entry.file, "utf-8"));
+      logFile(++number, path.relative(inputPath, entry.file), hasMermaid);
+    }
+
+    log(`${colors.dim}───────────────────────────────${colors.reset}`);
+
+    if (enableMermaid) {
+      logInfo(t("mermaidDetected"));
+    }
+
+    logInfo(t("converting"));
+
+    const result = await converter.convertDirectory(inputPath, outputPath, { ...convertOptions, enableMermaid });
+
+    log("");
+    for (const warning of result.warnings) {
+      logWarning(warning.file ? `${path.basename(warning.file)}: ${warning.message}` : warning.message);
+    }
+    logSuccess(`${t("done")} ${t("completed")} ${colors.bright}${outputPath}${colors.reset}`);
+    log("");
+  } else {
+    // Single file mode
+    const baseName = path.basename(inputPath, ".md");
+    const outputPath = output ? path.resolve(output) : path.join(path.dirname(inputPath), `${baseName}.docx`);
+
+    log("");
+    log(`${colors.bright}${icons.file} ${t("cliConvertFile")}${colors.reset}`);
+    log(`${colors.dim}───────────────────────────────${colors.reset}`);
+    logInfo(`${t("cliInput")} ${path.basename(inputPath)}`);
+
+    if (enableMermaid) {
+      logInfo(t("mermaidDetected"));
+    }
+
+    logInfo(t("converting"));
+
+    const result = await converter.convertFile(inputPath, outputPath, { ...convertOptions, enableMermaid });
+
+    log("");
+    for (const warning of result.warnings) {
+      logWarning(warning.file ? `${path.basename(warning.file)}: ${warning.message}` : warning.message);
+    }
+    logSuccess(`${t("done")} ${t("completed")} ${colors.bright}${outputPath}${colors.reset}`);
+    log("");
+  }
+}
+
+/**
+ * Build, then rebuild on every change until Ctrl+C. Errors are reported without exiting.
+ */
+function runWatch(converter: MdToDocxConverter, inputPath: string, options: CliOptions): void {
+  // Option files are watched too, so a template or theme can be edited alongside the text
+  const { configFile, options: resolved } = resolveOptions(inputPath, options);
+  const extraFiles = [...(configFile ? [configFile] : []), ...optionFiles(resolved)];
+
+  const stop = watch(
+    inputPath,
+    async () => {
+      const start = Date.now();
+      try {
+        await build(converter, inputPath, options);
+        logInfo(`${t("watchBuilt")} ${Date.now() - start} ms`);
+      } catch (error) {
+        log("");
+        logError(error instanceof Error ? error.message : t("unknownError"));
+        logInfo(`${t("watchFailed")} ${Date.now() - start} ms`);
+      }
+      log(`${colors.dim}${t("watchWaiting")}${colors.reset}`);
+    },
+    {
+      extraFiles,
+      manifest: resolved.manifest,
+      recursive: resolved.recursive,
+      include: resolved.include,
+      exclude: resolved.exclude,
+      onChange: (file) => logInfo(`${t("watchChanged")} ${path.relative(process.cwd(), file)}`),
+    }
+  );
+
+  process.once("SIGINT", () => {
+    stop();
+    void converter.close().finally(() => process.exit(0));
+  });
+}
+
+/**
+ * Convert each Markdown file of the input to its own .docx, mirroring folders into the output directory
+ * @returns whether every file converted
+ */
+async function runBatch(converter: MdToDocxConverter, options: CliOptions): Promise<boolean> {
+  const { configFile, options: resolved } = resolveOptions(path.resolve(options.input), options);
+  const { output, converter: _converter, ...convertOptions } = resolved;
+  // Without -o, each .docx is written next to its .md
+  const outputDir = output ? path.resolve(output) : batchFiles(options.input, convertOptions).baseDir;
+  const relative = (file: string) => path.relative(process.cwd(), file);
+
+  if (configFile) {
+    const profile = options.profile ? ` (${t("configProfile")} ${options.profile})` : "";
+    log("");
+    logInfo(`${t("configUsing")} ${relative(configFile)}${profile}`);
+  }
+
+  log("");
+  log(`${colors.bright}${icons.merge} ${t("cliBatch")}${colors.reset}`);
+  logInfo(`${t("cliOutputDir")} ${relative(outputDir) || "."}`);
+  log(`${colors.dim}───────────────────────────────${colors.reset}`);
+
+  const start = Date.now();
+  const result = await convertBatch(converter, options.input, outputDir, {
+    ...convertOptions,
+    concurrency: options.jobs,
+    force: options.force,
+    onProgress: (item) => {
+      if (item.status === "skipped") {
+        log(`${colors.dim}- ${relative(item.input)} (${t("batchUnchanged")})${colors.reset}`);
+      } else if (item.status === "failed") {
+        logError(`${relative(item.input)}: ${item.error}`);
+      } else {
+        logSuccess(`${relative(item.input)} ${icons.info} ${relative(item.output)}`);
+        for (const warning of item.warnings) {
+          logWarning(`${path.basename(item.input)}: ${warning.message}`);
+        }
+      }
+    },
+  });
+
+  if (result.items.length === 0) {
+    throw new Error(`${t("noMdFiles")}: ${options.input}`);
+  }
+
+  log(`${colors.dim}───────────────────────────────${colors.reset}`);
+  const seconds = ((Date.now() - start) / 1000).toFixed(1);
+  const summary =
+    `${t("batchConverted")} ${result.converted}, ${t("batchSkipped")} ${result.skipped}, ` +
+    `${t("batchFailed")} ${result.failed} (${seconds} s)`;
+  if (result.failed > 0) {
+    logError(summary);
+  } else {
+    logSuccess(summary);
+  }
+  log("");
+  return result.failed === 0;
+}
+
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
 
@@ -174,6 +797,18 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  if (args[0] === "cache") {
+    // The project config of the current directory may set the cache location
+    const options = parseArgs(args.slice(2));
+    try {
+      runCacheCommand(args[1], resolveOptions(process.cwd(), options).options.converter?.cache ?? {});
+    } catch (error) {
+      logError(error instanceof Error ? error.message : t("unknownError"));
+      process.exit(1);
+    }
+    return;
+  }
+
   const options = parseArgs(args);
 
   if (!options.input) {
@@ -184,96 +819,36 @@ async function main(): Promise<void> {
 
   const inputPath = path.resolve(options.input);
 
-  if (!fs.existsSync(inputPath)) {
-    logError(`${t("fileNotFound")} ${inputPath}`);
+  if (options.batch && options.watch) {
+    logError(t("batchWithWatch"));
     process.exit(1);
   }
 
-  const converter = new MdToDocxConverter();
+  // Batch input may be a glob
+  if (!options.batch && !fs.existsSync(inputPath)) {
+    logError(`${t("fileNotFound")} ${inputPath}`);
+    process.exit(1);
+  }
 
+  let converter: MdToDocxConverter;
   try {
-    const stat = fs.statSync(inputPath);
-    const isDirectory = stat.isDirectory();
-
-    // Auto-detect Mermaid
-    let enableMermaid = false;
-    if (options.noMermaid) {
-      enableMermaid = false;
-    } else if (options.mermaid === true) {
-      enableMermaid = true;
-    } else {
-      // Auto mode: detect if Mermaid exists
-      enableMermaid = detectMermaid(inputPath);
-    }
-
-    if (isDirectory) {
-      // Directory mode: merge all .md files
-      const dirName = path.basename(inputPath);
-      const outputPath = options.output
-        ? path.resolve(options.output)
-        : path.join(path.dirname(inputPath), `${dirName}.docx`);
-
-      const mdFiles = fs.readdirSync(inputPath)
-        .filter(f => f.endsWith(".md"))
-        .sort();
-
-      if (mdFiles.length === 0) {
-        logError(`${t("noMdFiles")}: ${inputPath}`);
-        process.exit(1);
-      }
-
-      log("");
-      log(`${colors.bright}${icons.folder} ${t("cliMergeFiles")}${colors.reset}`);
-      log(`${colors.dim}───────────────────────────────${colors.reset}`);
-
-      // Display file list, indicate if contains Mermaid
-      mdFiles.forEach((f, i) => {
-        const content = fs.readFileSync(path.join(inputPath, f), "utf-8");
-        const hasMermaid = containsMermaid(content);
-        logFile(i + 1, f, hasMermaid);
-      });
-
-      log(`${colors.dim}───────────────────────────────${colors.reset}`);
-
-      if (enableMermaid) {
-        logInfo(t("mermaidDetected"));
-      }
-
-      logInfo(t("converting"));
+    // Browser and cache settings are fixed for the run, so they are read once
+    converter = new MdToDocxConverter(resolveOptions(inputPath, options).options.converter);
+  } catch (error) {
+    logError(error instanceof Error ? error.message : t("unknownError"));
+    process.exit(1);
+  }
 
-      await converter.convertDirectory(inputPath, outputPath, {
-        enableMermaid,
-        separator: options.separator,
-      });
+  if (options.watch) {
+    runWatch(converter, inputPath, options);
+    return;
+  }
 
-      log("");
-      logSuccess(`${t("done")} ${t("completed")} ${colors.bright}${outputPath}${colors.reset}`);
-      log("");
+  try {
+    if (options.batch) {
+      process.exitCode = (await runBatch(converter, options)) ? 0 : 1;
     } else {
-      // Single file mode
-      const baseName = path.basename(inputPath, ".md");
-      const outputPath = options.output
-        ? path.resolve(options.output)
-        : path.join(path.dirname(inputPath), `${baseName}.docx`);
-
-      log("");
-      log(`${colors.bright}${icons.file} ${t("cliConvertFile")}${colors.reset}`);
-      log(`${colors.dim}───────────────────────────────${colors.reset}`);
-      logInfo(`${t("cliInput")} ${path.basename(inputPath)}`);
-
-      if (enableMermaid) {
-        logInfo(t("mermaidDetected"));
-      }
-
-      logInfo(t("converting"));
-
-      await converter.convertFile(inputPath, outputPath, {
-        enableMermaid,
-      });
-
-      log("");
-      logSuccess(`${t("done")} ${t("completed")} ${colors.bright}${outputPath}${colors.reset}`);
-      log("");
+      await build(converter, inputPath, options);
     }
   } catch (error) {
     log("");
@@ -283,6 +858,8 @@ async function main(): Promise<void> {
       logError(t("unknownError"));
     }
     process.exit(1);
+  } finally {
+    await converter.close();
   }
 }
 
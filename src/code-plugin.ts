@@ -1,40 +1,29 @@
-import { createHighlighter, type Highlighter, type BundledLanguage } from "shiki";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  bundledLanguages,
+  bundledThemes,
+  createHighlighter,
+  type Highlighter,
+  type BundledLanguage,
+  type BundledTheme,
+  type LanguageRegistration,
+  type ThemeRegistrationResolved,
+} from "shiki";
 import type { IPlugin } from "@m2d/core";
-import type { Code } from "mdast";
-
-// Supported languages list
-const SUPPORTED_LANGUAGES: BundledLanguage[] = [
-  "javascript",
-  "typescript",
-  "python",
-  "java",
-  "c",
-  "cpp",
-  "csharp",
-  "go",
-  "rust",
-  "ruby",
-  "php",
-  "swift",
-  "kotlin",
-  "sql",
-  "html",
-  "css",
-  "json",
-  "yaml",
-  "xml",
-  "markdown",
-  "bash",
-  "shellscript",
-  "powershell",
-  "dockerfile",
-];
-
-// Default language (used when language is not supported)
-const DEFAULT_LANGUAGE: BundledLanguage = "javascript";
-
-// Language aliases mapping
-const LANGUAGE_ALIASES: Record<string, BundledLanguage> = {
+import type { Code, Root } from "mdast";
+import { visit } from "unist-util-visit";
+import { pageTextWidth } from "./reference-docx.js";
+
+// Default theme, shown on a light gray background
+const DEFAULT_THEME = "github-light";
+const DEFAULT_BACKGROUND = "F6F8FA";
+
+// Languages shown as plain text without a warning
+const PLAIN_LANGUAGES = ["text", "plaintext", "plain", "txt"];
+
+// Language aliases mapping, on top of the aliases Shiki knows
+const LANGUAGE_ALIASES: Record<string, string> = {
   js: "javascript",
   ts: "typescript",
   py: "python",
@@ -48,34 +37,112 @@ const LANGUAGE_ALIASES: Record<string, BundledLanguage> = {
   md: "markdown",
 };
 
+// Fills of title bars, highlighted lines and diff lines, and the container border color, by theme type
+const ANNOTATION_FILLS = {
+  light: { title: "EAEEF2", highlight: "FFF8C5", added: "E6FFEC", removed: "FFEBE9", border: "D0D7DE" },
+  dark: { title: "30363D", highlight: "3B3620", added: "1B3A26", removed: "4A2125", border: "30363D" },
+};
+
+// Advance width of monospace glyphs relative to the font size (Consolas: 1126/2048)
+const CHAR_WIDTH = 0.55;
+
+// Smallest font size long lines are shrunk to (unit: half-points)
+const MIN_FONT_SIZE = 12;
+
+/**
+ * Annotations from the code fence, e.g. ```` ```ts title="server.ts" {3-5} showLineNumbers=10 ````
+ */
+interface CodeMeta {
+  /** Language without attributes written directly after it, as in ```` ```ts{3-5} ```` */
+  lang?: string;
+  title?: string;
+  /** Highlighted line numbers, counted from the first line of the block */
+  highlight: Set<number>;
+  /** Number of the first line when `showLineNumbers` is given */
+  firstLineNumber?: number;
+}
+
+function parseCodeMeta(node: Code): CodeMeta {
+  const [lang, ...rest] = (node.lang ?? "").split("{");
+  const meta = `${rest.length > 0 ? `{${rest.join("{")}` : ""} ${node.meta ?? ""}`;
+
+  const title = meta.match(/\btitle=(?:"([^"]*)"|'([^']*)'|(\S+))/);
+  const lineNumbers = meta.match(/\bshowLineNumbers(?:=(\d+))?/);
+  const highlight = new Set<number>();
+  // Ranges past the end of the block, such as {1-100000000}, stop at its last line
+  const lineCount = node.value.split("\n").length;
+  for (const range of meta.match(/\{([\d\s,-]+)\}/)?.[1].split(",") ?? []) {
+    const [start, end = start] = range.split("-").map((part) => parseInt(part, 10));
+    for (let line = Math.max(start, 1); line <= Math.min(end, lineCount); line++) highlight.add(line);
+  }
+
+  return {
+    lang: lang || undefined,
+    title: title ? (title[1] ?? title[2] ?? title[3]) : undefined,
+    highlight,
+    firstLineNumber: lineNumbers ? parseInt(lineNumbers[1] ?? "1", 10) : undefined,
+  };
+}
+
 let highlighterInstance: Highlighter | null = null;
+let highlighterLoading: Promise<Highlighter> | null = null;
+
+/**
+ * Get or create highlighter instance. Languages are loaded when a document uses them.
+ */
+function getHighlighter(): Promise<Highlighter> {
+  if (!highlighterLoading) {
+    highlighterLoading = createHighlighter({ themes: [DEFAULT_THEME], langs: [] }).then(
+      (highlighter) => (highlighterInstance = highlighter)
+    );
+  }
+  return highlighterLoading;
+}
 
 /**
- * Get or create highlighter instance
+ * Read a JSON file given as a theme or grammar option
  */
-async function getHighlighter(): Promise<Highlighter> {
-  if (!highlighterInstance) {
-    highlighterInstance = await createHighlighter({
-      themes: ["github-light"],
-      langs: SUPPORTED_LANGUAGES,
-    });
+function readJsonOption(filePath: string, description: string): Record<string, unknown> {
+  const absolutePath = path.resolve(filePath);
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`Code ${description} file not found: ${absolutePath}`);
+  }
+  try {
+    return JSON.parse(fs.readFileSync(absolutePath, "utf-8"));
+  } catch (error) {
+    throw new Error(`Invalid code ${description} file ${filePath}: ${(error as Error).message}`);
   }
-  return highlighterInstance;
 }
 
 /**
- * Resolve language name
+ * Load a bundled theme by name, or a theme JSON file (e.g. exported from VS Code)
  */
-function resolveLanguage(lang: string | null | undefined): BundledLanguage | null {
-  if (!lang) return null;
-  const normalized = lang.toLowerCase().trim();
-  if (LANGUAGE_ALIASES[normalized]) {
-    return LANGUAGE_ALIASES[normalized];
+async function loadTheme(highlighter: Highlighter, theme: string): Promise<ThemeRegistrationResolved> {
+  if (theme.toLowerCase().endsWith(".json")) {
+    const filePath = path.resolve(theme);
+    // Named by path, so themes from different files never replace each other
+    await highlighter.loadTheme({ ...readJsonOption(theme, "theme"), name: filePath });
+    return highlighter.getTheme(filePath);
   }
-  if (SUPPORTED_LANGUAGES.includes(normalized as BundledLanguage)) {
-    return normalized as BundledLanguage;
+
+  if (!Object.hasOwn(bundledThemes, theme)) {
+    throw new Error(`Unknown code theme: ${theme}. Use a Shiki theme name (e.g. github-dark) or a theme JSON file.`);
   }
-  return null;
+  await highlighter.loadTheme(theme as BundledTheme);
+  return highlighter.getTheme(theme);
+}
+
+/**
+ * Turn a grammar option into a language registration.
+ * Grammar files without a `name` are named after the file, e.g. `pipeline.tmLanguage.json` becomes "pipeline".
+ */
+function toGrammar(grammar: string | LanguageRegistration): LanguageRegistration {
+  if (typeof grammar !== "string") {
+    return { ...grammar, name: grammar.name.toLowerCase() };
+  }
+  const registration = readJsonOption(grammar, "grammar") as unknown as LanguageRegistration;
+  const name = registration.name || path.basename(grammar).replace(/(\.tmLanguage)?\.json$/i, "");
+  return { ...registration, name: name.toLowerCase() };
 }
 
 /**
@@ -83,13 +150,62 @@ function resolveLanguage(lang: string | null | undefined): BundledLanguage | nul
  */
 function hexToDocxColor(hex: string | undefined): string | undefined {
   if (!hex) return undefined;
-  return hex.replace("#", "");
+  const value = hex.replace("#", "");
+  // Themes may use #RGB, or #RRGGBBAA whose alpha DOCX cannot show
+  if (/^[0-9a-f]{3}$/i.test(value)) return value.replace(/./g, "$&$&");
+  return /^[0-9a-f]{6}([0-9a-f]{2})?$/i.test(value) ? value.slice(0, 6) : undefined;
+}
+
+/**
+ * How code blocks are laid out:
+ * - "paragraphs": one paragraph per line; a border groups them into a box
+ * - "table": a single-cell table holding all lines, with the title bar as its own row
+ */
+export type CodeContainer = "paragraphs" | "table";
+
+/**
+ * Long line handling:
+ * - "wrap": lines wrap, continuing after the line numbers
+ * - "shrink": the font of the block is reduced so its longest line fits the page width
+ */
+export type CodeOverflow = "wrap" | "shrink";
+
+export interface CodeBlockOptions {
+  /** @default "paragraphs" */
+  container?: CodeContainer;
+
+  /**
+   * Border color (hex), or `false` for none
+   * @default a gray matching the theme for "table", none for "paragraphs"
+   */
+  borderColor?: string | false;
+
+  /**
+   * Space between the border and the code (unit: points)
+   * @default 4
+   */
+  padding?: number;
+
+  /**
+   * Keep each code block on one page; blocks longer than a page still break
+   * @default false
+   */
+  keepTogether?: boolean;
+
+  /** @default "wrap" */
+  overflow?: CodeOverflow;
 }
 
-export interface CodePluginOptions {
+export interface CodePluginOptions extends CodeBlockOptions {
+  /**
+   * Shiki theme name (e.g. "github-dark", "nord") or path to a theme JSON file
+   * @default "github-light"
+   */
+  theme?: string;
+
   /**
    * Code block background color
-   * @default "F6F8FA"
+   * @default the theme's background, "F6F8FA" for the default theme
    */
   backgroundColor?: string;
 
@@ -110,6 +226,26 @@ export interface CodePluginOptions {
    * @default false
    */
   showLineNumbers?: boolean;
+
+  /**
+   * Paragraph style id for code lines (e.g. from a reference document).
+   * When set, the style provides background, font and size instead of direct formatting.
+   */
+  style?: string;
+
+  /**
+   * Extra TextMate grammars: paths to grammar JSON files, or Shiki language registrations
+   */
+  grammars?: (string | LanguageRegistration)[];
+
+  /** Extra language aliases, e.g. `{ tf: "terraform", pipeline: "yaml" }` */
+  languageAliases?: Record<string, string>;
+
+  /** Called with problems that do not stop the conversion, e.g. unknown languages */
+  onWarning?: (message: string) => void;
+
+  /** Width between the page margins (unit: twips) */
+  textWidth?: number;
 }
 
 /**
@@ -117,19 +253,78 @@ export interface CodePluginOptions {
  */
 export function codePlugin(options: CodePluginOptions = {}): IPlugin {
   const {
-    backgroundColor = "F6F8FA",
+    theme = DEFAULT_THEME,
     fontFamily = "Consolas",
     fontSize = 20,
     showLineNumbers = false,
+    style,
+    grammars = [],
+    languageAliases = {},
+    onWarning = (message: string) => console.warn(message),
+    container = "paragraphs",
+    padding = 4,
+    keepTogether = false,
+    overflow = "wrap",
+    textWidth = pageTextWidth(),
   } = options;
 
-  // Pre-load highlighter
-  const highlighterPromise = getHighlighter();
+  const aliases: Record<string, string> = { ...LANGUAGE_ALIASES };
+  for (const [alias, lang] of Object.entries(languageAliases)) {
+    aliases[alias.toLowerCase()] = lang.toLowerCase();
+  }
+  const customGrammars = grammars.map(toGrammar);
+  const customNames = new Set(customGrammars.flatMap((grammar) => [grammar.name, ...(grammar.aliases ?? [])]));
+  const reported = new Set<string>();
+
+  /**
+   * Resolve language name, or null when it is shown as plain text
+   */
+  const resolveLanguage = (lang: string | null | undefined): string | null => {
+    if (!lang) return null;
+    const normalized = lang.toLowerCase().trim();
+    const name = Object.hasOwn(aliases, normalized) ? aliases[normalized] : normalized;
+    return customNames.has(name) || Object.hasOwn(bundledLanguages, name) ? name : null;
+  };
+
+  const font = style ? {} : { font: fontFamily, size: fontSize };
+  // Set once the theme is loaded
+  let shading: { type: "solid"; color: string; fill: string } | undefined;
+  let foreground: string | undefined;
+  let resolvedTheme: ThemeRegistrationResolved | undefined;
+
+  // Pre-load highlighter, theme and custom grammars
+  const themePromise = getHighlighter().then(async (highlighter) => {
+    await highlighter.loadLanguage(...customGrammars);
+    return loadTheme(highlighter, theme);
+  });
+  // Failures surface in preprocess()
+  themePromise.catch(() => undefined);
 
   return {
-    async preprocess() {
-      // Ensure highlighter is loaded
-      await highlighterPromise;
+    async preprocess(tree) {
+      // Ensure highlighter and theme are loaded
+      const resolved = (resolvedTheme = await themePromise);
+      const backgroundColor =
+        options.backgroundColor ?? (theme === DEFAULT_THEME ? DEFAULT_BACKGROUND : hexToDocxColor(resolved.bg));
+      // Direct formatting is only applied when no named style is used
+      shading = style || !backgroundColor ? undefined : { type: "solid", color: backgroundColor, fill: backgroundColor };
+      foreground = style ? undefined : hexToDocxColor(resolved.fg);
+
+      // Load the languages this document uses
+      const langs = new Set<string>();
+      visit(tree as Root, "code", (node) => {
+        const name = parseCodeMeta(node).lang;
+        const lang = resolveLanguage(name);
+        if (lang) {
+          langs.add(lang);
+        } else if (name && !PLAIN_LANGUAGES.includes(name.toLowerCase()) && !reported.has(name)) {
+          reported.add(name);
+          onWarning(`Unknown code language "${name}", shown as plain text`);
+        }
+      });
+      const highlighter = await getHighlighter();
+      const missing = [...langs].filter((lang) => !highlighter.getLoadedLanguages().includes(lang));
+      await highlighter.loadLanguage(...(missing as BundledLanguage[]));
     },
 
     block(docx, node, paraProps, _blockChildrenProcessor, _inlineChildrenProcessor) {
@@ -139,73 +334,90 @@ export function codePlugin(options: CodePluginOptions = {}): IPlugin {
 
       const codeNode = node as Code;
       const code = codeNode.value || "";
-      const lang = resolveLanguage(codeNode.lang);
-
-      // If highlighter not ready or language not supported, use plain text rendering
-      if (!highlighterInstance || !lang) {
-        const lines = code.split("\n");
-        return lines.map(
-          (line, index) =>
-            new docx.Paragraph({
-              ...paraProps,
-              shading: {
-                type: docx.ShadingType.SOLID,
-                color: backgroundColor,
-                fill: backgroundColor,
-              },
-              spacing: { before: index === 0 ? 120 : 0, after: index === lines.length - 1 ? 120 : 0, line: 276 },
-              children: [
-                ...(showLineNumbers
-                  ? [
-                      new docx.TextRun({
-                        text: `${String(index + 1).padStart(3, " ")} │ `,
-                        font: fontFamily,
-                        size: fontSize,
-                        color: "999999",
-                      }),
-                    ]
-                  : []),
-                new docx.TextRun({
-                  text: line || " ",
-                  font: fontFamily,
-                  size: fontSize,
-                }),
-              ],
+      const meta = parseCodeMeta(codeNode);
+      const lang = resolveLanguage(meta.lang);
+      const fills = ANNOTATION_FILLS[resolvedTheme?.type === "dark" ? "dark" : "light"];
+
+      // Tokens per line; without a loaded language each line is a single plain token
+      const lines: { content: string; color?: string }[][] =
+        highlighterInstance && lang && highlighterInstance.getLoadedLanguages().includes(lang)
+          ? highlighterInstance.codeToTokensBase(code, {
+              lang: lang as BundledLanguage,
+              // Custom themes are registered under their file path
+              theme: (resolvedTheme?.name ?? DEFAULT_THEME) as BundledTheme,
             })
-        );
-      }
+          : code.split("\n").map((line) => [{ content: line }]);
 
-      // Use shiki for syntax highlighting
-      const tokens = highlighterInstance.codeToTokensBase(code, {
-        lang,
-        theme: "github-light",
-      });
+      const firstLineNumber = meta.firstLineNumber ?? (showLineNumbers ? 1 : undefined);
+      const numberWidth = Math.max(3, String((firstLineNumber ?? 1) + lines.length - 1).length);
+      const gutter = firstLineNumber === undefined ? 0 : numberWidth + 3;
+      const sourceLines = code.split("\n");
+      const table = container === "table";
+      const borderColor = options.borderColor ?? (table ? fills.border : false);
 
-      const paragraphs: InstanceType<typeof docx.Paragraph>[] = [];
+      // Shrink the font until the longest line fits between the margins (and the cell padding)
+      const available = textWidth - (table ? padding * 40 : 0);
+      const longest = gutter + Math.max(1, ...sourceLines.map((line) => line.length));
+      const size =
+        overflow === "shrink"
+          ? Math.min(fontSize, Math.max(MIN_FONT_SIZE, Math.floor(available / (longest * CHAR_WIDTH * 10))))
+          : fontSize;
+      const runFont = size < fontSize ? { ...font, size } : font;
+      // Wrapped lines continue after the line numbers
+      const gutterWidth = Math.round(gutter * CHAR_WIDTH * size * 10);
+      const indent = gutter > 0 ? { left: gutterWidth, hanging: gutterWidth } : undefined;
 
-      tokens.forEach((lineTokens, lineIndex) => {
+      const side = borderColor
+        ? { style: docx.BorderStyle.SINGLE, size: 4, color: borderColor, space: padding }
+        : undefined;
+      // Word draws one box around consecutive paragraphs with the same border
+      const border = side && !table ? { top: side, bottom: side, left: side, right: side } : undefined;
+
+      /**
+       * Fill of a line: diff additions and removals, then highlighted lines
+       */
+      const lineFill = (lineIndex: number): string | undefined => {
+        const source = sourceLines[lineIndex] ?? "";
+        if (lang === "diff" && source.startsWith("+") && !source.startsWith("+++")) return fills.added;
+        if (lang === "diff" && source.startsWith("-") && !source.startsWith("---")) return fills.removed;
+        return meta.highlight.has(lineIndex + 1) ? fills.highlight : undefined;
+      };
+
+      // Title bar above the code, kept on the same page
+      const titleParagraph = meta.title
+        ? new docx.Paragraph({
+            ...paraProps,
+            style,
+            keepNext: true,
+            border,
+            shading: table ? undefined : { type: "solid", color: fills.title, fill: fills.title },
+            spacing: { before: table ? 0 : 120, after: 0, line: 276 },
+            children: [new docx.TextRun({ text: meta.title, ...runFont, bold: true, color: foreground })],
+          })
+        : undefined;
+
+      const paragraphs = lines.map((lineTokens, lineIndex) => {
         const runs: InstanceType<typeof docx.TextRun>[] = [];
+        const last = lineIndex === lines.length - 1;
 
         // Line numbers
-        if (showLineNumbers) {
+        if (firstLineNumber !== undefined) {
           runs.push(
             new docx.TextRun({
-              text: `${String(lineIndex + 1).padStart(3, " ")} │ `,
-              font: fontFamily,
-              size: fontSize,
+              text: `${String(firstLineNumber + lineIndex).padStart(numberWidth, " ")} │ `,
+              ...runFont,
               color: "999999",
             })
           );
         }
 
         // Code tokens
-        if (lineTokens.length === 0) {
+        if (lineTokens.length === 0 || lineTokens.every((token) => !token.content)) {
           // Empty line
           runs.push(
             new docx.TextRun({
               text: " ",
-              font: fontFamily,
-              size: fontSize,
+              ...runFont,
             })
           );
         } else {
@@ -213,36 +425,71 @@ export function codePlugin(options: CodePluginOptions = {}): IPlugin {
             runs.push(
               new docx.TextRun({
                 text: token.content,
-                font: fontFamily,
-                size: fontSize,
-                color: hexToDocxColor(token.color),
+                ...runFont,
+                color: hexToDocxColor(token.color) ?? foreground,
               })
             );
           });
         }
 
-        paragraphs.push(
-          new docx.Paragraph({
-            ...paraProps,
-            shading: {
-              type: docx.ShadingType.SOLID,
-              color: backgroundColor,
-              fill: backgroundColor,
-            },
-            spacing: {
-              before: lineIndex === 0 ? 120 : 0,
-              after: lineIndex === tokens.length - 1 ? 120 : 0,
-              line: 276,
-            },
-            children: runs,
-          })
-        );
+        const fill = lineFill(lineIndex);
+        return new docx.Paragraph({
+          ...paraProps,
+          style,
+          // The table cell carries the background
+          shading: fill ? { type: "solid", color: fill, fill } : table ? undefined : shading,
+          border,
+          indent,
+          keepLines: keepTogether || undefined,
+          keepNext: (keepTogether && !last) || undefined,
+          spacing: {
+            before: lineIndex === 0 && !meta.title && !table ? 120 : 0,
+            after: last && !table ? 120 : 0,
+            line: 276,
+          },
+          children: runs,
+        });
       });
 
       // Mark node as processed to avoid duplicate processing
       (node as { type: string }).type = "";
 
-      return paragraphs;
+      if (!table) {
+        return titleParagraph ? [titleParagraph, ...paragraphs] : paragraphs;
+      }
+
+      const none = { style: docx.BorderStyle.NONE, size: 0, color: "auto" };
+      const line = side ? { style: side.style, size: side.size, color: side.color } : none;
+      const margin = padding * 20;
+      const row = (children: InstanceType<typeof docx.Paragraph>[], fill?: string) =>
+        new docx.TableRow({
+          cantSplit: keepTogether || undefined,
+          children: [
+            new docx.TableCell({
+              shading: fill ? { type: docx.ShadingType.CLEAR, color: "auto", fill } : undefined,
+              margins: { top: margin, bottom: margin, left: margin, right: margin },
+              children,
+            }),
+          ],
+        });
+
+      return [
+        new docx.Table({
+          width: { size: 100, type: docx.WidthType.PERCENTAGE },
+          borders: {
+            top: line,
+            bottom: line,
+            left: line,
+            right: line,
+            insideHorizontal: line,
+            insideVertical: none,
+          },
+          rows: [
+            ...(titleParagraph ? [row([titleParagraph], fills.title)] : []),
+            row(paragraphs, shading?.fill),
+          ],
+        }),
+      ];
     },
   };
 }
@@ -254,5 +501,6 @@ export function disposeHighlighter(): void {
   if (highlighterInstance) {
     highlighterInstance.dispose();
     highlighterInstance = null;
+    highlighterLoading = null;
   }
 }
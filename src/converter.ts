@@ -4,30 +4,149 @@ import remarkGfm from "remark-gfm";
 import remarkFrontmatter from "remark-frontmatter";
 import remarkMath from "remark-math";
 import { remarkDocx } from "@m2d/remark-docx";
-import { listPlugin, mathPlugin, tablePlugin, emojiPlugin, imagePlugin } from "mdast2docx/dist/plugins";
-import { codePlugin, disposeHighlighter } from "./code-plugin.js";
+import { listPlugin, mathPlugin, emojiPlugin, imagePlugin } from "mdast2docx/dist/plugins";
+import { codePlugin, disposeHighlighter, type CodeBlockOptions } from "./code-plugin.js";
+import type { LanguageRegistration } from "shiki";
+import { stylePlugin, type StyleMap } from "./style-plugin.js";
+import { tocPlugin, type TocPluginOptions } from "./toc-plugin.js";
+import { headingPlugin } from "./heading-plugin.js";
+import { figurePlugin, type FigureOptions } from "./figure-plugin.js";
+import { tablePlugin, type TableOptions } from "./table-plugin.js";
+import { linkMergedSources, type LinkSource } from "./cross-links.js";
+import { hasUrlScheme } from "./urls.js";
+import { titlePagePlugin, type TitlePageOptions } from "./title-page-plugin.js";
+import {
+  extractFrontMatter,
+  toDocumentMetadata,
+  toDocxProperties,
+  formatValue,
+  type DocumentMetadata,
+} from "./frontmatter.js";
+import { buildHeaderFooter, type HeaderFooterOptions } from "./header-footer.js";
+import { MermaidRenderer, type MermaidImageFormat, type MermaidRendererOptions } from "./mermaid-renderer.js";
+import {
+  resolveRenderSettings,
+  applyBlockAttributes,
+  applySvgLabels,
+  type MermaidOptions,
+  type MermaidRenderSettings,
+} from "./mermaid-options.js";
+import { findMermaidBlocks } from "./mermaid-blocks.js";
+import { resolveBook, type ChapterOptions } from "./manifest.js";
+import { adjustHeadings, chapterTitle, type HeadingOptions } from "./headings.js";
+import { MermaidCache, type MermaidCacheOptions } from "./mermaid-cache.js";
+import { loadReferenceDocx, applyReferenceTheme, pageTextWidth, type ReferenceDocx } from "./reference-docx.js";
 import * as fs from "node:fs";
 import * as path from "node:path";
-import { spawn } from "node:child_process";
-import * as os from "node:os";
-import * as crypto from "node:crypto";
+import { fileURLToPath, pathToFileURL } from "node:url";
 import sharp from "sharp";
+import { visit } from "unist-util-visit";
+import type { Image, Paragraph, Root, RootContent } from "mdast";
 
 export interface ConvertOptions {
   enableMermaid?: boolean;
+  /**
+   * Image format of rendered Mermaid diagrams. SVG diagrams stay sharp when zoomed or printed
+   * and carry a PNG fallback for Word versions without SVG support.
+   * @default "png"
+   */
+  mermaidFormat?: MermaidImageFormat;
+  /** Mermaid theme, background, scale and config. Fences can override some of these with `{theme=forest}` */
+  mermaid?: MermaidOptions;
+  /**
+   * What to do with a diagram that fails to render: stop the conversion with an error ("fail"),
+   * show a red box with the error message ("placeholder"), or keep the diagram source as a code block ("source").
+   * Failures are reported in the conversion warnings.
+   * @default "source"
+   */
+  onMermaidError?: MermaidErrorMode;
+  /**
+   * Directory that relative image paths are resolved against.
+   * Defaults to the current working directory for `convert()` and to the file's directory otherwise.
+   */
+  baseDir?: string;
+  /** Reference .docx whose styles, theme and page setup are applied to the output */
+  referenceDocx?: string;
+  /** Named styles (from the reference document) used for Markdown elements */
+  styleMap?: StyleMap;
+  /** Insert a table of contents at the start of the document or at a `[[toc]]` marker */
+  toc?: boolean | TocPluginOptions;
+  /** Document properties, overriding values read from front matter */
+  metadata?: DocumentMetadata;
+  /** Render a cover page from front matter fields before the body content */
+  titlePage?: boolean | TitlePageOptions;
+  /** Numbered captions below images that have a title, e.g. `![Login](login.png "Login flow")` */
+  figures?: boolean | FigureOptions;
+  /**
+   * Shiki theme for code blocks (e.g. "github-dark") or path to a theme JSON file.
+   * Code blocks take their background and text color from the theme.
+   * @default "github-light"
+   */
+  codeTheme?: string;
+  /** Extra TextMate grammars for code blocks: grammar JSON files or Shiki language registrations */
+  codeGrammars?: (string | LanguageRegistration)[];
+  /** Extra code block language aliases, e.g. `{ tf: "terraform" }` */
+  codeLanguageAliases?: Record<string, string>;
+  /** Code block layout: container, border, padding, page breaks and long lines */
+  codeBlocks?: CodeBlockOptions;
+  /** Table captions (from a `Table: ...` line above the table) and table styling */
+  tables?: TableOptions;
+  /** Page header and footer, e.g. `{ footer: { right: "Page {page} of {pages}" } }` */
+  headerFooter?: HeaderFooterOptions;
+  /**
+   * Receives the warnings of `convert()`, which returns only the document.
+   * The file methods return their warnings in the result instead.
+   */
+  onWarning?: (warning: ConversionWarning) => void;
 }
 
 export interface MergeOptions extends ConvertOptions {
-  /** Custom file sorting function, defaults to natural sort by filename */
+  /** Custom file sorting function, defaults to natural sort by filename. Not used when a manifest lists chapters. */
   sortFn?: (a: string, b: string) => number;
+  /** Merge the Markdown files of subdirectories too, walking folders in sort order */
+  recursive?: boolean;
+  /** When merging recursively, start each folder with its index.md / README.md or a heading from the folder name */
+  folderHeadings?: boolean;
+  /** Glob patterns of files to merge, relative to the input directory, e.g. `["guide/**", "*.md"]` */
+  include?: string[];
+  /** Glob patterns of files to leave out, relative to the input directory, e.g. `["drafts/**"]` */
+  exclude?: string[];
   /** Section separator, defaults to page break */
   separator?: "pagebreak" | "hr" | "none";
+  /** Heading levels of each merged file, e.g. `{ offset: 1 }` to nest every file's H1 under a part heading */
+  headings?: HeadingOptions;
+  /**
+   * Book manifest (`mermadoc.yaml` or `SUMMARY.md`) with chapter order, parts and excluded files,
+   * or `false` to ignore one. By default `convertDirectory()` uses the manifest in the directory, if any.
+   */
+  manifest?: string | false;
+}
+
+export type MermaidErrorMode = "fail" | "placeholder" | "source";
+
+/**
+ * Problem found during conversion that did not stop it
+ */
+export interface ConversionWarning {
+  /** Source file the problem was found in */
+  file?: string;
+  message: string;
+}
+
+export interface ConversionResult {
+  /** Absolute path of the written DOCX */
+  outputPath: string;
+  warnings: ConversionWarning[];
 }
 
-interface MermaidBlock {
-  code: string;
-  startIndex: number;
-  endIndex: number;
+interface MarkdownSource extends ChapterOptions {
+  content: string;
+  /** Directory that relative image paths are resolved against */
+  baseDir: string;
+  /** Absolute path of the source file, used to link merged files together */
+  filePath?: string;
+  /** Part and folder headings the file is nested under, for `headings.offset: "auto"` */
+  level?: number;
 }
 
 interface ImageData {
@@ -39,19 +158,31 @@ interface ImageData {
   };
 }
 
+/**
+ * Convert "60%" (of the text width), "400px" or "400" to pixels
+ */
+function parseDisplayWidth(value: string | null, maxWidthPixels: number): number | undefined {
+  const match = value?.trim().match(/^(\d+(?:\.\d+)?)(%|px)?$/);
+  if (!match) return undefined;
+  const amount = parseFloat(match[1]);
+  const pixels = match[2] === "%" ? (maxWidthPixels * amount) / 100 : amount;
+  return pixels > 0 ? Math.min(pixels, maxWidthPixels) : undefined;
+}
+
 const nodeImageResolver = async (
   src: string,
   options: { maxW: number; maxH: number; dpi: number; scale: number }
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 ): Promise<any> => {
   let imageBuffer: Buffer;
-  let imageType: "png" | "jpg" | "gif" | "bmp" = "png";
+  let imageType: "png" | "jpg" | "gif" | "bmp" | "svg" = "png";
+  let fallbackBuffer: Buffer | undefined;
 
   if (src.startsWith("data:")) {
-    const matches = src.match(/^data:image\/(\w+);base64,(.+)$/);
+    const matches = src.match(/^data:image\/([\w+.-]+);base64,(.+)$/);
     if (matches) {
-      const type = matches[1] === "jpeg" ? "jpg" : matches[1];
-      if (type === "jpg" || type === "png" || type === "gif" || type === "bmp") {
+      const type = matches[1] === "jpeg" ? "jpg" : matches[1] === "svg+xml" ? "svg" : matches[1];
+      if (type === "jpg" || type === "png" || type === "gif" || type === "bmp" || type === "svg") {
         imageType = type;
       }
       imageBuffer = Buffer.from(matches[2], "base64");
@@ -68,28 +199,52 @@ const nodeImageResolver = async (
       imageType = "gif";
     } else if (contentType?.includes("png")) {
       imageType = "png";
+    } else if (contentType?.includes("svg")) {
+      imageType = "svg";
     }
   } else {
-    imageBuffer = fs.readFileSync(src);
-    const ext = path.extname(src).toLowerCase().slice(1);
+    const filePath = src.startsWith("file:") ? fileURLToPath(src) : src;
+    imageBuffer = fs.readFileSync(filePath);
+    const ext = path.extname(filePath).toLowerCase().slice(1);
     if (ext === "jpg" || ext === "jpeg") {
       imageType = "jpg";
-    } else if (ext === "png" || ext === "gif" || ext === "bmp") {
+    } else if (ext === "png" || ext === "gif" || ext === "bmp" || ext === "svg") {
       imageType = ext;
     }
+    // A PNG next to the SVG (e.g. a rendered Mermaid diagram) serves as its fallback
+    const siblingPng = filePath.replace(/\.svg$/i, ".png");
+    if (imageType === "svg" && fs.existsSync(siblingPng)) {
+      fallbackBuffer = fs.readFileSync(siblingPng);
+    }
+  }
+
+  // Word shows the PNG fallback in versions without SVG support
+  if (imageType === "svg" && !fallbackBuffer) {
+    fallbackBuffer = await sharp(imageBuffer).png().toBuffer();
   }
 
-  const metadata = await sharp(imageBuffer).metadata();
+  const metadata = await sharp(fallbackBuffer ?? imageBuffer).metadata();
   const width = metadata.width || 200;
   const height = metadata.height || 200;
 
   const maxWidthPixels = options.maxW * options.dpi;
   const maxHeightPixels = options.maxH * options.dpi;
-  const scale = Math.min(maxWidthPixels / width, maxHeightPixels / height, 1);
+  let scale = Math.min(maxWidthPixels / width, maxHeightPixels / height, 1);
+
+  // Display width set on a mermaid fence, e.g. {width=60%}
+  const displayWidth = src.startsWith("file:")
+    ? parseDisplayWidth(new URL(src).searchParams.get("width"), maxWidthPixels)
+    : undefined;
+  if (displayWidth) {
+    scale = Math.min(displayWidth / width, maxHeightPixels / height);
+  }
 
   return {
     type: imageType,
     data: new Uint8Array(imageBuffer).buffer as ArrayBuffer,
+    ...(fallbackBuffer
+      ? { fallback: { type: "png", data: new Uint8Array(fallbackBuffer).buffer as ArrayBuffer } }
+      : {}),
     transformation: {
       width: width * scale,
       height: height * scale,
@@ -97,169 +252,451 @@ const nodeImageResolver = async (
   };
 };
 
-export class MdToDocxConverter {
-  private tempDir: string;
-
-  constructor() {
-    this.tempDir = path.join(os.tmpdir(), "md-docx-mermaid");
-    if (!fs.existsSync(this.tempDir)) {
-      fs.mkdirSync(this.tempDir, { recursive: true });
-    }
+/**
+ * Resolve a local file reference against a base directory
+ */
+function resolveLocalPath(src: string, baseDir: string): string {
+  if (hasUrlScheme(src)) {
+    return src;
+  }
+  let decoded = src;
+  try {
+    decoded = decodeURI(src);
+  } catch {
+    // Keep malformed escapes as written
   }
+  return path.resolve(baseDir, decoded);
+}
 
-  private extractMermaidBlocks(markdown: string): MermaidBlock[] {
-    const blocks: MermaidBlock[] = [];
-    const regex = /```mermaid\n([\s\S]*?)```/g;
-    let match;
+/**
+ * Files named in the options that every conversion reads, e.g. the reference document, as absolute paths.
+ * Watch and batch mode track them; a logo given by URL is not a file.
+ */
+export function optionFiles(options: ConvertOptions): string[] {
+  const logo = typeof options.titlePage === "object" ? options.titlePage.logo : undefined;
+  return [
+    options.referenceDocx,
+    logo && !hasUrlScheme(logo) ? resolveLocalPath(logo, process.cwd()) : undefined,
+    options.mermaid?.configFile,
+    options.mermaid?.cssFile,
+    options.codeTheme?.toLowerCase().endsWith(".json") ? options.codeTheme : undefined,
+    ...(options.codeGrammars ?? []),
+  ].flatMap((file) => (typeof file === "string" ? [path.resolve(file)] : []));
+}
 
-    while ((match = regex.exec(markdown)) !== null) {
-      blocks.push({
-        code: match[1].trim(),
-        startIndex: match.index,
-        endIndex: match.index + match[0].length,
-      });
-    }
+/**
+ * Make relative image paths absolute so they no longer depend on the working directory
+ */
+function resolveImagePaths(tree: Root, baseDir: string): void {
+  visit(tree, "image", (node) => {
+    node.url = resolveLocalPath(node.url, baseDir);
+  });
+}
 
-    return blocks;
+/**
+ * Red-bordered box shown in place of a diagram that failed to render
+ */
+function mermaidPlaceholder(message: string): Paragraph {
+  const border = { style: "single", color: "C00000", size: 12, space: 4 };
+  return {
+    type: "paragraph",
+    children: [{ type: "text", value: message }],
+    data: {
+      border: { top: border, bottom: border, left: border, right: border },
+      shading: { type: "clear", color: "auto", fill: "FDECEA" },
+    } as Paragraph["data"],
+  };
+}
+
+/**
+ * Nodes inserted between merged files
+ */
+function separatorNodes(separator: MergeOptions["separator"]): RootContent[] {
+  if (separator === "pagebreak") {
+    return [{ type: "html", value: "<div style=\"page-break-after: always;\"></div>" }];
+  }
+  if (separator === "hr") {
+    return [{ type: "thematicBreak" }];
+  }
+  return [];
+}
+
+export interface ConverterOptions {
+  /** Mermaid rendering settings (concurrency, Puppeteer launch options) */
+  mermaid?: MermaidRendererOptions;
+  /** Where rendered diagrams are cached between runs, and the cache limits */
+  cache?: MermaidCacheOptions;
+}
+
+export class MdToDocxConverter {
+  private referenceCache = new Map<string, Promise<ReferenceDocx>>();
+  private mermaidRenderer: MermaidRenderer;
+  private mermaidCache: MermaidCache;
+  /** Conversions in progress; the cache is pruned when the last one is done */
+  private activeRuns = 0;
+  /** Cache files used by the conversions in progress */
+  private usedDiagrams = new Set<string>();
+  private pruneDue = false;
+
+  constructor(options: ConverterOptions = {}) {
+    this.mermaidRenderer = new MermaidRenderer(options.mermaid);
+    this.mermaidCache = new MermaidCache(options.cache);
   }
 
-  private async renderMermaidToPng(mermaidCode: string): Promise<string> {
-    const hash = crypto.createHash("md5").update(mermaidCode).digest("hex");
-    const inputFile = path.join(this.tempDir, `${hash}.mmd`);
-    const outputFile = path.join(this.tempDir, `${hash}.png`);
+  /**
+   * Render a diagram into the cache directory (unless it is cached already) and return the image file path.
+   * SVG diagrams are rendered together with a PNG fallback next to them.
+   */
+  private async renderMermaidDiagram(
+    mermaidCode: string,
+    format: MermaidImageFormat,
+    settings: MermaidRenderSettings
+  ): Promise<string> {
+    // The PNG fallback of an SVG diagram is rendered the same way
+    const renderSettings = format === "svg" ? applySvgLabels(settings) : settings;
+    const key = this.mermaidCache.key(mermaidCode, renderSettings);
+    const formats: MermaidImageFormat[] = format === "svg" ? ["svg", "png"] : ["png"];
+
+    await Promise.all(
+      formats.map(async (type) => {
+        if (!this.mermaidCache.get(key, type)) {
+          this.mermaidCache.set(key, type, await this.mermaidRenderer.render(mermaidCode, type, renderSettings));
+        }
+      })
+    );
 
-    if (fs.existsSync(outputFile)) {
-      return outputFile;
+    for (const type of formats) {
+      this.usedDiagrams.add(this.mermaidCache.filePath(key, type));
     }
+    return this.mermaidCache.filePath(key, format);
+  }
 
-    fs.writeFileSync(inputFile, mermaidCode);
+  /**
+   * Replace Mermaid code blocks in the tree with their rendered images.
+   * Blocks that fail to render are handled according to `onError` and returned as warnings.
+   */
+  private async renderMermaidBlocks(
+    tree: Root,
+    format: MermaidImageFormat,
+    settings: MermaidRenderSettings,
+    onError: MermaidErrorMode,
+    filePath?: string
+  ): Promise<ConversionWarning[]> {
+    const warnings: ConversionWarning[] = [];
+    const blocks = findMermaidBlocks(tree, (message, node) => {
+      const line = node.position?.start.line ?? "?";
+      warnings.push({ file: filePath, message: `Mermaid diagram at line ${line}: ${message}` });
+    });
 
-    const mmdc = path.join(
-      process.cwd(),
-      "node_modules",
-      ".bin",
-      "mmdc"
+    // Blocks render in parallel, bounded by the renderer's concurrency
+    const rendered = await Promise.allSettled(
+      blocks.map((block) =>
+        this.renderMermaidDiagram(block.code, format, applyBlockAttributes(settings, block.attributes))
+      )
     );
 
-    return new Promise((resolve, reject) => {
-      const proc = spawn(mmdc, [
-        "-i", inputFile,
-        "-o", outputFile,
-        "-b", "white",
-        "-s", "2",
-      ]);
-
-      let stderr = "";
-      proc.stderr.on("data", (data) => {
-        stderr += data.toString();
-      });
-
-      proc.on("close", (code) => {
-        if (code !== 0) {
-          reject(new Error(`Mermaid rendering failed: ${stderr}`));
-          return;
+    for (const [index, block] of blocks.entries()) {
+      const outcome = rendered[index];
+      const children = block.parent.children as RootContent[];
+
+      if (outcome.status === "rejected") {
+        const reason = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+        // Browser errors can span many lines, the first one says what went wrong
+        const line = block.node.position?.start.line ?? "?";
+        const message = `Mermaid diagram at line ${line} failed to render: ${reason.split("\n")[0]}`;
+        warnings.push({ file: filePath, message });
+
+        if (onError === "placeholder") {
+          children[children.indexOf(block.node)] = mermaidPlaceholder(message);
+        } else {
+          // Shown as a highlighted code block, attributes are not part of the language
+          block.node.lang = "mermaid";
+          block.node.meta = undefined;
         }
+        continue;
+      }
 
-        if (!fs.existsSync(outputFile)) {
-          reject(new Error("Mermaid output file not created"));
-          return;
-        }
+      // The image resolver reads the file (and its PNG fallback) from the cache directory
+      const url = pathToFileURL(outcome.value);
+      const { width, caption } = block.attributes;
+      if (width) {
+        url.searchParams.set("width", width);
+      }
+      const image: Image = { type: "image", url: url.href, alt: caption ?? "Mermaid Diagram", title: caption };
 
-        resolve(outputFile);
-      });
+      children[children.indexOf(block.node)] = { type: "paragraph", children: [image] };
+    }
 
-      proc.on("error", reject);
-    });
+    if (onError === "fail" && warnings.length > 0) {
+      const location = filePath ? `${filePath}: ` : "";
+      throw new Error(warnings.map(({ message }) => location + message).join("\n"));
+    }
+    return warnings;
   }
 
-  private async preprocessMermaid(markdown: string): Promise<string> {
-    const blocks = this.extractMermaidBlocks(markdown);
-
-    if (blocks.length === 0) {
-      return markdown;
+  /**
+   * Load a reference document once per path
+   */
+  private loadReference(referencePath: string): Promise<ReferenceDocx> {
+    const absolutePath = path.resolve(referencePath);
+    let reference = this.referenceCache.get(absolutePath);
+    if (!reference) {
+      reference = loadReferenceDocx(absolutePath);
+      reference.catch(() => this.referenceCache.delete(absolutePath));
+      this.referenceCache.set(absolutePath, reference);
     }
+    return reference;
+  }
 
-    let result = markdown;
-    let offset = 0;
-
-    for (const block of blocks) {
-      try {
-        const pngPath = await this.renderMermaidToPng(block.code);
-        const pngBuffer = fs.readFileSync(pngPath);
-        const base64 = pngBuffer.toString("base64");
-        const dataUri = `data:image/png;base64,${base64}`;
-        const imgMarkdown = `\n\n![Mermaid Diagram](${dataUri})\n\n`;
-
-        const adjustedStart = block.startIndex + offset;
-        const adjustedEnd = block.endIndex + offset;
-
-        result =
-          result.substring(0, adjustedStart) +
-          imgMarkdown +
-          result.substring(adjustedEnd);
+  async convert(markdown: string, options: ConvertOptions = {}): Promise<Buffer> {
+    const baseDir = path.resolve(options.baseDir ?? process.cwd());
+    const { buffer, warnings } = await this.convertSources([{ content: markdown, baseDir }], options);
+    for (const warning of warnings) {
+      options.onWarning?.(warning);
+    }
+    return buffer;
+  }
 
-        offset += imgMarkdown.length - (block.endIndex - block.startIndex);
-      } catch (error) {
-        console.error(`Failed to render mermaid block: ${error}`);
+  /**
+   * Run conversions as one batch, e.g. the files of `convertBatch()`. Cached diagrams are pruned once,
+   * after the last conversion is done, and the diagrams any of them used are kept.
+   */
+  async runBatch<T>(work: () => Promise<T>): Promise<T> {
+    this.activeRuns++;
+    try {
+      return await work();
+    } finally {
+      this.activeRuns--;
+      if (this.activeRuns === 0) {
+        if (this.pruneDue) this.mermaidCache.prune(this.usedDiagrams);
+        this.pruneDue = false;
+        this.usedDiagrams.clear();
       }
     }
+  }
 
-    return result;
+  /**
+   * Convert one or more Markdown sources into a single DOCX.
+   * Each source is parsed on its own so relative paths resolve against its own directory,
+   * and links between source files are rewritten to internal links. The DOCX is written to `outputPath` if given.
+   */
+  private convertSources(
+    sources: MarkdownSource[],
+    options: MergeOptions = {},
+    outputPath?: string
+  ): Promise<{ buffer: Buffer; warnings: ConversionWarning[] }> {
+    // The cache is pruned once the output is written
+    return this.runBatch(async () => {
+      const result = await this.buildDocument(sources, options);
+      if (outputPath) {
+        fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+        fs.writeFileSync(outputPath, result.buffer);
+      }
+      return result;
+    });
   }
 
-  async convert(markdown: string, options: ConvertOptions = {}): Promise<Buffer> {
-    const { enableMermaid = false } = options;
+  /**
+   * Build the DOCX of the sources; see `convertSources()`
+   */
+  private async buildDocument(
+    sources: MarkdownSource[],
+    options: MergeOptions
+  ): Promise<{ buffer: Buffer; warnings: ConversionWarning[] }> {
+    const {
+      enableMermaid = false,
+      mermaidFormat = "png",
+      onMermaidError = "source",
+      styleMap = {},
+      toc = false,
+      figures = false,
+      titlePage = false,
+    } = options;
+
+    const reference = options.referenceDocx
+      ? await this.loadReference(options.referenceDocx)
+      : undefined;
+
+    if (reference) {
+      for (const [element, styleId] of Object.entries(styleMap)) {
+        if (styleId && !reference.styleIds.has(styleId)) {
+          throw new Error(`Style "${styleId}" for ${element} not found in reference document: ${reference.path}`);
+        }
+      }
+    }
 
-    let processedMarkdown = markdown;
-    if (enableMermaid) {
-      processedMarkdown = await this.preprocessMermaid(markdown);
+    // Document properties come from the first file's front matter (parts have none)
+    const firstFile = sources.find((source) => source.filePath) ?? sources[0];
+    const { data: frontMatterData, warning: frontMatterWarning } = extractFrontMatter(firstFile.content);
+    const frontMatter = toDocumentMetadata(frontMatterData);
+    const metadata: DocumentMetadata = {
+      ...frontMatter,
+      ...options.metadata,
+      custom: { ...frontMatter.custom, ...options.metadata?.custom },
+    };
+
+    const { titlePage: differentFirstPage, ...headersFooters } = options.headerFooter
+      ? buildHeaderFooter(options.headerFooter, {
+          title: metadata.title,
+          date: formatValue(frontMatterData.date ?? new Date()) ?? "",
+          // H1 is rendered with the Title style
+          chapterStyle: "Title",
+          page: reference?.page,
+        })
+      : { titlePage: undefined };
+
+    const warnings: ConversionWarning[] = [];
+    if (frontMatterWarning) {
+      warnings.push({ file: firstFile.filePath, message: frontMatterWarning });
     }
+    // A logo option is relative to the working directory, a front matter logo to the file that names it
+    const titlePageData: Record<string, unknown> = { ...frontMatterData, ...metadata.custom, ...metadata };
+    const logoOption = typeof titlePage === "object" ? titlePage.logo : undefined;
+    const frontMatterLogo = formatValue(titlePageData.logo);
+    const titlePageLogo = logoOption
+      ? resolveLocalPath(logoOption, process.cwd())
+      : frontMatterLogo && resolveLocalPath(frontMatterLogo, firstFile.baseDir);
 
     const sectionProps = {
+      properties: { page: reference?.page, titlePage: differentFirstPage },
+      ...headersFooters,
       plugins: [
         listPlugin(),
         mathPlugin(),
-        tablePlugin(),
+        tablePlugin({
+          ...options.tables,
+          style: styleMap.table,
+          captionStyle: styleMap.caption,
+          textWidth: pageTextWidth(reference?.page),
+        }),
         emojiPlugin(),
         codePlugin({
-          backgroundColor: "F6F8FA",
+          ...options.codeBlocks,
+          theme: options.codeTheme,
+          grammars: options.codeGrammars,
+          languageAliases: options.codeLanguageAliases,
+          onWarning: (message) => warnings.push({ message }),
           fontFamily: "Consolas",
           fontSize: 20,
           showLineNumbers: false,
+          style: styleMap.code,
+          textWidth: pageTextWidth(reference?.page),
         }),
         imagePlugin({
           imageResolver: nodeImageResolver,
           cacheConfig: { cacheMode: "memory" },
         }),
+        stylePlugin(styleMap),
+        headingPlugin(),
+        ...(toc ? [tocPlugin(toc === true ? {} : toc)] : []),
+        ...(figures ? [figurePlugin({ ...(figures === true ? {} : figures), style: styleMap.caption })] : []),
+        ...(titlePage
+          ? [
+              titlePagePlugin({
+                ...(titlePage === true ? {} : titlePage),
+                data: titlePageData,
+                logo: titlePageLogo,
+                resolveImage: (src, maxWidth) =>
+                  nodeImageResolver(src, {
+                    maxW: maxWidth,
+                    maxH: maxWidth,
+                    dpi: 96,
+                    scale: 1,
+                  }),
+              }),
+            ]
+          : []),
       ],
     };
 
+    const docxProps = {
+      ...toDocxProperties(metadata),
+      ...(reference ? { externalStyles: reference.styles } : {}),
+    };
+
     const processor = unified()
       .use(remarkParse)
       .use(remarkGfm)
       .use(remarkFrontmatter)
       .use(remarkMath)
-      .use(remarkDocx, "nodebuffer", undefined, sectionProps);
+      .use(remarkDocx, "nodebuffer", docxProps, sectionProps);
+
+    const trees: Root[] = [];
+    const linkSources: LinkSource[] = [];
+    const parsed = sources.map((source) => processor.parse(source.content) as Root);
+    if (enableMermaid) {
+      // Diagrams of all sources share the renderer's pool
+      const mermaidSettings = resolveRenderSettings(options.mermaid);
+      const failures = await Promise.all(
+        parsed.map((tree, index) => {
+          const { mermaid, filePath } = sources[index];
+          // Chapters of a book manifest may override the Mermaid options
+          const settings = mermaid ? resolveRenderSettings({ ...options.mermaid, ...mermaid }) : mermaidSettings;
+          return this.renderMermaidBlocks(tree, mermaidFormat, settings, onMermaidError, filePath);
+        })
+      );
+      this.pruneDue = true;
+      warnings.push(...failures.flat());
+    }
+    for (const [index, source] of sources.entries()) {
+      const tree = processor.runSync(parsed[index]) as Root;
+      resolveImagePaths(tree, source.baseDir);
+      if (source.filePath && (options.headings || source.headingOffset !== undefined)) {
+        const { offset = 0, normalize = false, chapterTitles = false } = options.headings ?? {};
+        adjustHeadings(
+          tree,
+          source.headingOffset ?? (offset === "auto" ? (source.level ?? 0) : offset),
+          normalize,
+          chapterTitles ? chapterTitle(source.filePath, source.content) : undefined
+        );
+      }
+      trees.push(tree);
+      if (source.filePath) {
+        linkSources.push({ tree, filePath: source.filePath });
+      }
+    }
+
+    // Links to other merged files become links to their heading bookmarks
+    if (linkSources.length > 1) {
+      warnings.push(...linkMergedSources(linkSources).map(({ filePath, message }) => ({ file: filePath, message })));
+    }
 
-    const result = await processor.process(processedMarkdown);
-    const buffer = await result.result;
+    // Merge sources, keeping only the first front matter block
+    const root: Root = {
+      type: "root",
+      children: trees.flatMap((tree, index) =>
+        index === 0
+          ? tree.children
+          : [
+              ...separatorNodes(sources[index].separator ?? options.separator ?? "pagebreak"),
+              ...tree.children.filter((node) => node.type !== "yaml"),
+            ]
+      ),
+    };
+
+    const output = await processor.stringify(root);
 
-    if (buffer instanceof Buffer) {
-      return buffer;
+    let buffer: Buffer;
+    if (output instanceof Buffer) {
+      buffer = output;
+    } else if (output instanceof Uint8Array) {
+      buffer = Buffer.from(output);
+    } else {
+      throw new Error("Unexpected result type from docx conversion");
     }
 
-    if (buffer instanceof Uint8Array) {
-      return Buffer.from(buffer);
+    if (reference) {
+      buffer = await applyReferenceTheme(buffer, reference);
     }
 
-    throw new Error("Unexpected result type from docx conversion");
+    return { buffer, warnings };
   }
 
   async convertFile(
     inputPath: string,
     outputPath: string,
     options: ConvertOptions = {}
-  ): Promise<void> {
+  ): Promise<ConversionResult> {
     const absoluteInputPath = path.resolve(inputPath);
     const absoluteOutputPath = path.resolve(outputPath);
 
@@ -268,50 +705,51 @@ export class MdToDocxConverter {
     }
 
     const markdown = fs.readFileSync(absoluteInputPath, "utf-8");
-    const buffer = await this.convert(markdown, options);
+    const { warnings } = await this.convertSources(
+      [
+        {
+          content: markdown,
+          baseDir: path.resolve(options.baseDir ?? path.dirname(absoluteInputPath)),
+          filePath: absoluteInputPath,
+        },
+      ],
+      options,
+      absoluteOutputPath
+    );
 
-    const outputDir = path.dirname(absoluteOutputPath);
-    if (!fs.existsSync(outputDir)) {
-      fs.mkdirSync(outputDir, { recursive: true });
-    }
+    return { outputPath: absoluteOutputPath, warnings };
+  }
 
-    fs.writeFileSync(absoluteOutputPath, buffer);
+  /**
+   * Close the Mermaid browser. It is also closed automatically after being idle for a while.
+   */
+  async close(): Promise<void> {
+    await this.mermaidRenderer.close();
   }
 
+  /**
+   * Release resources: dispose the highlighter and close the Mermaid browser in the background
+   * (await `close()` to wait for it). Cached diagrams are kept for later runs; use `clearCache()` to remove them.
+   */
   cleanup(): void {
-    if (fs.existsSync(this.tempDir)) {
-      const files = fs.readdirSync(this.tempDir);
-      for (const file of files) {
-        fs.unlinkSync(path.join(this.tempDir, file));
-      }
-    }
+    void this.close().catch(() => undefined);
     // Cleanup shiki highlighter
     disposeHighlighter();
   }
 
   /**
-   * Natural sort comparison function, supports numeric prefix sorting (00, 01, 02...)
+   * Directory of the diagram cache, which also keeps the state of batch runs
    */
-  private naturalSort(a: string, b: string): number {
-    const regex = /(\d+)|(\D+)/g;
-    const aParts = a.match(regex) || [];
-    const bParts = b.match(regex) || [];
-
-    for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
-      const aPart = aParts[i] || "";
-      const bPart = bParts[i] || "";
-
-      const aNum = parseInt(aPart, 10);
-      const bNum = parseInt(bPart, 10);
-
-      if (!isNaN(aNum) && !isNaN(bNum)) {
-        if (aNum !== bNum) return aNum - bNum;
-      } else {
-        const cmp = aPart.localeCompare(bPart);
-        if (cmp !== 0) return cmp;
-      }
-    }
-    return 0;
+  get cacheDir(): string {
+    return this.mermaidCache.dir;
+  }
+
+  /**
+   * Remove all cached diagrams
+   * @returns number of removed files
+   */
+  clearCache(): number {
+    return this.mermaidCache.clear();
   }
 
   /**
@@ -321,7 +759,7 @@ export class MdToDocxConverter {
     inputDir: string,
     outputPath: string,
     options: MergeOptions = {}
-  ): Promise<void> {
+  ): Promise<ConversionResult> {
     const absoluteInputDir = path.resolve(inputDir);
     const absoluteOutputPath = path.resolve(outputPath);
 
@@ -334,44 +772,32 @@ export class MdToDocxConverter {
       throw new Error(`Not a directory: ${absoluteInputDir}`);
     }
 
-    // Get all .md files
-    const files = fs.readdirSync(absoluteInputDir)
-      .filter(file => file.endsWith(".md"))
-      .sort(options.sortFn || this.naturalSort.bind(this));
+    // Chapters in manifest order, or all .md files (of subdirectories too when recursive)
+    const { entries } = resolveBook(absoluteInputDir, options);
 
-    if (files.length === 0) {
+    if (!entries.some((entry) => entry.type === "chapter")) {
       throw new Error(`No markdown files found in: ${absoluteInputDir}`);
     }
 
-    // Determine separator
-    const separator = options.separator || "pagebreak";
-    let separatorMarkdown = "";
-    if (separator === "pagebreak") {
-      separatorMarkdown = "\n\n<div style=\"page-break-after: always;\"></div>\n\n";
-    } else if (separator === "hr") {
-      separatorMarkdown = "\n\n---\n\n";
-    }
-
-    // Merge all Markdown contents
-    const contents: string[] = [];
-    for (const file of files) {
-      const filePath = path.join(absoluteInputDir, file);
-      const content = fs.readFileSync(filePath, "utf-8");
-      contents.push(content);
-    }
-
-    const mergedMarkdown = contents.join(separatorMarkdown);
-
-    // Convert to DOCX
-    const buffer = await this.convert(mergedMarkdown, options);
+    // Read all files, each resolving relative paths against its own directory; parts become a title
+    const sources: MarkdownSource[] = entries.map((entry) =>
+      entry.type === "part"
+        ? { content: `${"#".repeat(entry.depth ?? 1)} ${entry.title}\n`, baseDir: absoluteInputDir }
+        : {
+            content: fs.readFileSync(entry.file, "utf-8"),
+            baseDir: path.dirname(entry.file),
+            filePath: entry.file,
+            separator: entry.separator,
+            mermaid: entry.mermaid,
+            headingOffset: entry.headingOffset,
+            level: entry.level,
+          }
+    );
 
-    // Ensure output directory exists
-    const outputDir = path.dirname(absoluteOutputPath);
-    if (!fs.existsSync(outputDir)) {
-      fs.mkdirSync(outputDir, { recursive: true });
-    }
+    // Convert to DOCX and write it
+    const { warnings } = await this.convertSources(sources, options, absoluteOutputPath);
 
-    fs.writeFileSync(absoluteOutputPath, buffer);
+    return { outputPath: absoluteOutputPath, warnings };
   }
 
   /**
@@ -381,44 +807,30 @@ export class MdToDocxConverter {
     inputPaths: string[],
     outputPath: string,
     options: MergeOptions = {}
-  ): Promise<void> {
+  ): Promise<ConversionResult> {
     const absoluteOutputPath = path.resolve(outputPath);
 
     if (inputPaths.length === 0) {
       throw new Error("No input files provided");
     }
 
-    // Determine separator
-    const separator = options.separator || "pagebreak";
-    let separatorMarkdown = "";
-    if (separator === "pagebreak") {
-      separatorMarkdown = "\n\n<div style=\"page-break-after: always;\"></div>\n\n";
-    } else if (separator === "hr") {
-      separatorMarkdown = "\n\n---\n\n";
-    }
-
-    // Read and merge all files
-    const contents: string[] = [];
+    // Read all files, each resolving relative paths against its own directory
+    const sources: MarkdownSource[] = [];
     for (const inputPath of inputPaths) {
       const absoluteInputPath = path.resolve(inputPath);
       if (!fs.existsSync(absoluteInputPath)) {
         throw new Error(`Input file not found: ${absoluteInputPath}`);
       }
-      const content = fs.readFileSync(absoluteInputPath, "utf-8");
-      contents.push(content);
+      sources.push({
+        content: fs.readFileSync(absoluteInputPath, "utf-8"),
+        baseDir: path.dirname(absoluteInputPath),
+        filePath: absoluteInputPath,
+      });
     }
 
-    const mergedMarkdown = contents.join(separatorMarkdown);
-
-    // Convert to DOCX
-    const buffer = await this.convert(mergedMarkdown, options);
-
-    // Ensure output directory exists
-    const outputDir = path.dirname(absoluteOutputPath);
-    if (!fs.existsSync(outputDir)) {
-      fs.mkdirSync(outputDir, { recursive: true });
-    }
+    // Convert to DOCX and write it
+    const { warnings } = await this.convertSources(sources, options, absoluteOutputPath);
 
-    fs.writeFileSync(absoluteOutputPath, buffer);
+    return { outputPath: absoluteOutputPath, warnings };
   }
 }
@@ -0,0 +1,155 @@
+import { getTextContent } from "@m2d/core/utils";
+import type { Heading as CoreHeading } from "@m2d/core";
+import type { Heading, Link, PhrasingContent, Root } from "mdast";
+import { SKIP, visit } from "unist-util-visit";
+import * as path from "node:path";
+import { hasUrlScheme } from "./urls.js";
+
+/**
+ * A parsed Markdown file taking part in a merge
+ */
+export interface LinkSource {
+  tree: Root;
+  /** Absolute path of the Markdown file */
+  filePath: string;
+}
+
+/**
+ * Bookmark id of a heading: an id assigned while merging, or the one @m2d/core derives from its text
+ */
+export function headingBookmarkId(heading: Heading | CoreHeading): string {
+  const assigned = (heading.data as { bookmark?: string } | undefined)?.bookmark;
+  return assigned ?? getTextContent(heading as CoreHeading).replace(/[. ]+/g, "-").toLowerCase();
+}
+
+/**
+ * GitHub-style heading anchor, as used in links such as `chapter.md#install-guide`
+ */
+export function githubSlug(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, "")
+    .replace(/ /g, "-");
+}
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * A link that could not be resolved inside the merged document
+ */
+export interface LinkProblem {
+  /** File containing the link */
+  filePath: string;
+  message: string;
+}
+
+interface FileAnchors {
+  /** GitHub-style slug → bookmark id */
+  slugs: Map<string, string>;
+  /** Bookmark of the first heading, used for links to the file itself */
+  first?: string;
+}
+
+/**
+ * Give every heading in the merged document a unique bookmark and
+ * collect the GitHub-style anchors of each file
+ */
+function collectAnchors(sources: LinkSource[]): Map<string, FileAnchors> {
+  const usedBookmarks = new Set<string>();
+  const anchors = new Map<string, FileAnchors>();
+
+  for (const { tree, filePath } of sources) {
+    const fileAnchors: FileAnchors = { slugs: new Map() };
+    const slugCounts = new Map<string, number>();
+
+    visit(tree, "heading", (heading) => {
+      // Headings with the same text in different files would share a bookmark otherwise
+      const baseId = headingBookmarkId(heading);
+      let bookmark = baseId;
+      for (let n = 2; usedBookmarks.has(bookmark); n++) {
+        bookmark = `${baseId}-${n}`;
+      }
+      usedBookmarks.add(bookmark);
+      if (bookmark !== baseId) {
+        heading.data = { ...heading.data, bookmark } as Heading["data"];
+      }
+
+      const baseSlug = githubSlug(getTextContent(heading as CoreHeading));
+      const count = slugCounts.get(baseSlug) ?? 0;
+      slugCounts.set(baseSlug, count + 1);
+      fileAnchors.slugs.set(count === 0 ? baseSlug : `${baseSlug}-${count}`, bookmark);
+      fileAnchors.first ??= bookmark;
+    });
+
+    anchors.set(filePath, fileAnchors);
+  }
+
+  return anchors;
+}
+
+/**
+ * Rewrite links between merged files into internal links to heading bookmarks.
+ * Links to Markdown files outside the merge set are left as they are and reported.
+ */
+export function linkMergedSources(sources: LinkSource[]): LinkProblem[] {
+  const anchors = collectAnchors(sources);
+  const problems: LinkProblem[] = [];
+
+  for (const { tree, filePath } of sources) {
+    const baseDir = path.dirname(filePath);
+    const report = (message: string) => problems.push({ filePath, message });
+
+    const resolveTarget = (url: string): string | null | undefined => {
+      // External URLs, mail links etc. are left alone
+      if (hasUrlScheme(url) || url.startsWith("//")) return undefined;
+
+      const hashIndex = url.indexOf("#");
+      const target = hashIndex === -1 ? url : url.slice(0, hashIndex);
+      const hash = hashIndex === -1 ? "" : decode(url.slice(hashIndex + 1));
+
+      const targetPath = target ? path.resolve(baseDir, decode(target)) : filePath;
+      const targetAnchors = anchors.get(targetPath);
+
+      if (!targetAnchors) {
+        if (/\.(md|markdown)$/i.test(target)) {
+          report(`Link "${url}" points to a file outside the merged set`);
+        }
+        return undefined;
+      }
+
+      if (hash) {
+        const bookmark = targetAnchors.slugs.get(hash.toLowerCase());
+        if (bookmark) return bookmark;
+        report(`Link "${url}" points to a heading that does not exist`);
+      }
+
+      if (!targetAnchors.first) {
+        report(`Link "${url}" points to a file without headings, link removed`);
+        return null;
+      }
+      return targetAnchors.first;
+    };
+
+    visit(tree, (node, index, parent) => {
+      if (node.type !== "link" && node.type !== "definition") return;
+
+      const bookmark = resolveTarget(node.url);
+      if (bookmark) {
+        node.url = `#${bookmark}`;
+      } else if (bookmark === null && node.type === "link" && parent && index !== undefined) {
+        // Nothing to point at: keep the link text only
+        parent.children.splice(index, 1, ...((node as Link).children as PhrasingContent[]));
+        return [SKIP, index];
+      }
+    });
+  }
+
+  return problems;
+}
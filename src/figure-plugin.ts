@@ -0,0 +1,211 @@
+import type { IPlugin, RootContent } from "@m2d/core";
+import { docx } from "@m2d/core/section";
+import { getTextContent } from "@m2d/core/utils";
+import type { Image, Paragraph, Parent, Root } from "mdast";
+import { buildFieldXml } from "./toc-plugin.js";
+
+/** Marker paragraph that positions the list of figures */
+const LOF_MARKER = /^\s*\[\[lof\]\]\s*$/i;
+
+export interface FigureOptions {
+  /**
+   * Caption label, also used as the SEQ field identifier
+   * @default "Figure"
+   */
+  label?: string;
+
+  /**
+   * Caption images that have no title with their alt text
+   * @default false
+   */
+  fromAlt?: boolean;
+
+  /**
+   * Insert a list of figures at a `[[lof]]` marker, or after the table of contents
+   * @default false
+   */
+  listOfFigures?: boolean;
+
+  /**
+   * Title shown above the list of figures (empty string for none)
+   * @default "List of Figures"
+   */
+  listTitle?: string;
+}
+
+interface FigurePluginOptions extends FigureOptions {
+  /** Paragraph style for captions; without it captions use the "Caption" style plus direct formatting */
+  style?: string;
+}
+
+interface CaptionNode {
+  type: "figureCaption";
+  number: number;
+  text: string;
+  bookmark: string;
+}
+
+interface ListOfFiguresNode {
+  type: "listOfFigures";
+}
+
+interface Caption {
+  /** Text before the number, e.g. "Figure" */
+  label: string;
+  /** SEQ field identifier */
+  identifier: string;
+  number: number;
+  text: string;
+  bookmark: string;
+}
+
+/**
+ * Build a numbered caption paragraph, shared by figure and table captions.
+ * Without a style the "Caption" style is used plus direct formatting.
+ */
+export function captionParagraph(caption: Caption, style?: string, keepNext = false) {
+  const run = style ? {} : { italics: true, size: 18, color: "44546A" };
+  return new docx.Paragraph({
+    style: style ?? "Caption",
+    alignment: style ? undefined : "center",
+    spacing: style ? undefined : { before: 60, after: 240 },
+    keepNext: keepNext || undefined,
+    children: [
+      new docx.Bookmark({
+        id: caption.bookmark,
+        children: [
+          new docx.TextRun({ ...run, text: `${caption.label} ` }),
+          new docx.SimpleField(`SEQ ${caption.identifier} \\* ARABIC`, String(caption.number)),
+          new docx.TextRun({ ...run, text: `: ${caption.text}` }),
+        ],
+      }),
+    ],
+  });
+}
+
+/**
+ * The image of a paragraph that contains nothing else
+ */
+function figureImage(paragraph: Paragraph): Image | undefined {
+  const content = paragraph.children.filter((child) => !(child.type === "text" && !child.value.trim()));
+  const [only] = content;
+  return content.length === 1 && only.type === "image" ? only : undefined;
+}
+
+/**
+ * Figure caption plugin.
+ * Adds numbered captions (Word SEQ fields) below images that stand alone in a paragraph,
+ * and optionally a list of figures.
+ */
+export function figurePlugin(options: FigurePluginOptions = {}): IPlugin {
+  const { label = "Figure", fromAlt = false, listOfFigures = false, listTitle = "List of Figures", style } = options;
+  // SEQ identifiers cannot contain spaces
+  const identifier = label.trim().replace(/\s+/g, "_") || "Figure";
+
+  let captions: CaptionNode[] = [];
+  const captioned = new WeakSet<object>();
+
+  const addCaptions = (parent: Parent) => {
+    for (let index = 0; index < parent.children.length; index++) {
+      const child = parent.children[index];
+      if (child.type === "paragraph") {
+        const image = figureImage(child);
+        const text = (image?.title || (fromAlt ? image?.alt : undefined))?.trim();
+        if (!text) continue;
+
+        const number = captions.length + 1;
+        const caption: CaptionNode = { type: "figureCaption", number, text, bookmark: `_Figure${number}` };
+        captions.push(caption);
+
+        // Keep the image on the same page as its caption
+        child.data = { ...child.data, keepNext: true } as typeof child.data;
+        (parent.children as unknown[]).splice(index + 1, 0, caption);
+        index++;
+      } else if (child.type === "blockquote") {
+        addCaptions(child);
+      }
+    }
+  };
+
+  return {
+    root(props) {
+      if (listOfFigures) {
+        props.features = { ...props.features, updateFields: true };
+      }
+    },
+
+    preprocess(tree) {
+      // Plugins may run more than once per document
+      if (!captioned.has(tree)) {
+        captioned.add(tree);
+        captions = [];
+        addCaptions(tree as Root);
+      }
+
+      const children = tree.children as (RootContent | CaptionNode | ListOfFiguresNode)[];
+
+      const markers = children.filter(
+        (node) => node.type === "paragraph" && LOF_MARKER.test(getTextContent(node))
+      );
+
+      if (listOfFigures && !children.some((node) => node.type === "listOfFigures")) {
+        const marker = markers.shift();
+        if (marker) {
+          children.splice(children.indexOf(marker), 1, { type: "listOfFigures" });
+        } else {
+          // Place after the table of contents, or after front matter
+          const tocIndex = children.findIndex((node) => (node as { type: string }).type === "toc");
+          const index = tocIndex !== -1 ? tocIndex + 1 : children.findIndex((node) => node.type !== "yaml");
+          children.splice(index === -1 ? children.length : index, 0, { type: "listOfFigures" });
+        }
+      }
+
+      // Markers are dropped when there is no list of figures, and only the first one is used
+      for (const marker of markers) {
+        children.splice(children.indexOf(marker), 1);
+      }
+    },
+
+    block(docx, node) {
+      const type = (node as { type: string }).type;
+
+      if (type === "figureCaption") {
+        const caption = node as unknown as CaptionNode;
+        // Mark node as processed to avoid duplicate processing
+        (node as { type: string }).type = "";
+
+        return [captionParagraph({ ...caption, label, identifier }, style)];
+      }
+
+      if (type === "listOfFigures") {
+        (node as { type: string }).type = "";
+
+        const blocks: ReturnType<NonNullable<IPlugin["block"]>> = [];
+        if (listTitle) {
+          blocks.push(
+            new docx.Paragraph({
+              style: "TOCHeading",
+              spacing: { after: 120 },
+              children: [new docx.TextRun({ text: listTitle, bold: true, size: 32 })],
+            })
+          );
+        }
+
+        const entries = captions.map((caption) => ({
+          text: `${label} ${caption.number}: ${caption.text}`,
+          style: "TableofFigures",
+          bookmark: caption.bookmark,
+        }));
+        // fromXmlString wraps the parsed paragraphs in an unnamed root component
+        const wrapper = docx.ImportedXmlComponent.fromXmlString(
+          `<w:body>${buildFieldXml(entries, `TOC \\h \\z \\c "${identifier}"`)}</w:body>`
+        );
+        const body = (wrapper as unknown as { root: { root: (typeof blocks)[number][] }[] }).root[0];
+        blocks.push(...body.root);
+        return blocks;
+      }
+
+      return [];
+    },
+  };
+}
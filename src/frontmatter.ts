@@ -0,0 +1,105 @@
+import yaml from "js-yaml";
+
+const FRONT_MATTER = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/** Front matter keys written to docProps/core.xml */
+const CORE_KEYS = ["title", "author", "subject", "keywords", "description", "lastModifiedBy"] as const;
+
+/**
+ * Document properties written to docProps/core.xml and docProps/custom.xml
+ */
+export interface DocumentMetadata {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  description?: string;
+  lastModifiedBy?: string;
+  /** Custom document properties */
+  custom?: Record<string, string>;
+}
+
+export interface FrontMatter {
+  /** Parsed YAML data, empty when there is no (valid) front matter */
+  data: Record<string, unknown>;
+  /** Markdown content after the front matter block */
+  body: string;
+  /** Why the front matter was ignored, when it is not valid YAML */
+  warning?: string;
+}
+
+/**
+ * Split YAML front matter from Markdown content
+ */
+export function extractFrontMatter(markdown: string): FrontMatter {
+  const match = markdown.match(FRONT_MATTER);
+  if (!match) {
+    return { data: {}, body: markdown };
+  }
+
+  const body = markdown.slice(match[0].length);
+  try {
+    const data = yaml.load(match[1]);
+    if (data && typeof data === "object" && !Array.isArray(data)) {
+      return { data: data as Record<string, unknown>, body };
+    }
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { data: {}, body, warning: `Ignoring invalid front matter: ${reason}` };
+  }
+  return { data: {}, body };
+}
+
+/**
+ * Convert a front matter value to a property string
+ */
+export function formatValue(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (Array.isArray(value)) {
+    return value.map(formatValue).filter((item) => item !== undefined).join(", ");
+  }
+  if (typeof value === "object") return undefined;
+  return String(value);
+}
+
+/**
+ * Map front matter data to document properties.
+ * Known keys go to core properties, other scalar keys become custom properties.
+ */
+export function toDocumentMetadata(data: Record<string, unknown>): DocumentMetadata {
+  const metadata: DocumentMetadata = {};
+  const custom: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(data)) {
+    const text = formatValue(value);
+    if (text === undefined) continue;
+
+    if ((CORE_KEYS as readonly string[]).includes(key)) {
+      metadata[key as (typeof CORE_KEYS)[number]] = text;
+    } else {
+      custom[key] = text;
+    }
+  }
+
+  if (Object.keys(custom).length > 0) {
+    metadata.custom = custom;
+  }
+
+  return metadata;
+}
+
+/**
+ * Map document metadata to docx document options
+ */
+export function toDocxProperties(metadata: DocumentMetadata) {
+  return {
+    title: metadata.title,
+    creator: metadata.author,
+    subject: metadata.subject,
+    keywords: metadata.keywords,
+    description: metadata.description,
+    lastModifiedBy: metadata.lastModifiedBy,
+    customProperties: Object.entries(metadata.custom ?? {}).map(([name, value]) => ({ name, value })),
+  };
+}
@@ -0,0 +1,45 @@
+const escape = (text: string) => text.replace(/[.+^$()|[\]\\{}]/g, "\\$&");
+
+/**
+ * Convert a glob pattern to a regular expression.
+ * Supports `*` (within a folder), `**` (any number of folders), `?` and `{a,b}`.
+ * Patterns without a slash match file names in any folder, as in .gitignore.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const normalized = pattern.replace(/\\/g, "/").replace(/^\.\//, "");
+  let source = "";
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+    if (char === "*" && normalized[i + 1] === "*") {
+      // "**/" also matches no folder at all
+      const slash = normalized[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      const end = normalized.indexOf("}", i);
+      if (end === -1) {
+        source += "\\{";
+        continue;
+      }
+      const options = normalized.slice(i + 1, end).split(",");
+      source += `(?:${options.map((option) => escape(option).replace(/\*/g, "[^/]*")).join("|")})`;
+      i = end;
+    } else {
+      source += escape(char);
+    }
+  }
+  const anyFolder = !normalized.includes("/");
+  return new RegExp(`^${anyFolder ? "(?:.*/)?" : ""}${source}$`);
+}
+
+/**
+ * Whether a relative path (with "/" or "\" separators) matches any of the patterns
+ */
+export function matchesGlob(relativePath: string, patterns: string[]): boolean {
+  const normalized = relativePath.replace(/\\/g, "/");
+  return patterns.some((pattern) => globToRegExp(pattern).test(normalized));
+}
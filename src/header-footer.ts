@@ -0,0 +1,135 @@
+import { docx } from "@m2d/core/section";
+import { pageTextWidth, type PageSetup } from "./reference-docx.js";
+
+const TOKEN = /\{(title|page|pages|date|chapter)\}/g;
+
+/**
+ * Text of the left, center and right parts of a header or footer.
+ * Supported tokens: `{title}`, `{page}`, `{pages}`, `{date}`, `{chapter}`.
+ */
+export interface HeaderFooterSlots {
+  left?: string;
+  center?: string;
+  right?: string;
+}
+
+export interface HeaderFooterOptions {
+  header?: HeaderFooterSlots;
+  footer?: HeaderFooterSlots;
+  /**
+   * Leave the header and footer off the first page
+   * @default false
+   */
+  differentFirstPage?: boolean;
+}
+
+interface HeaderFooterContext {
+  /** Value of `{title}` */
+  title?: string;
+  /** Value of `{date}` */
+  date: string;
+  /** Paragraph style whose nearest heading fills `{chapter}` */
+  chapterStyle: string;
+  page?: PageSetup;
+}
+
+type Paragraph = InstanceType<typeof docx.Paragraph>;
+type ParagraphChild = InstanceType<typeof docx.TextRun> | InstanceType<typeof docx.SimpleField>;
+
+/**
+ * Parse a "left|center|right" CLI value. A value without "|" is centered.
+ */
+export function parseSlots(value: string): HeaderFooterSlots {
+  const parts = value.split("|");
+  if (parts.length === 1) {
+    return { center: value };
+  }
+  const [left, center, right] = parts;
+  return { left: left || undefined, center: center || undefined, right: right || undefined };
+}
+
+function renderText(text: string, context: HeaderFooterContext): ParagraphChild[] {
+  const children: ParagraphChild[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(TOKEN)) {
+    if (match.index > lastIndex) {
+      children.push(new docx.TextRun(text.slice(lastIndex, match.index)));
+    }
+    lastIndex = match.index + match[0].length;
+
+    switch (match[1]) {
+      case "title":
+        children.push(new docx.TextRun(context.title ?? ""));
+        break;
+      case "date":
+        children.push(new docx.TextRun(context.date));
+        break;
+      case "page":
+        children.push(new docx.TextRun({ children: [docx.PageNumber.CURRENT] }));
+        break;
+      case "pages":
+        children.push(new docx.TextRun({ children: [docx.PageNumber.TOTAL_PAGES] }));
+        break;
+      case "chapter":
+        children.push(new docx.SimpleField(`STYLEREF "${context.chapterStyle}"`));
+        break;
+    }
+  }
+
+  if (lastIndex < text.length) {
+    children.push(new docx.TextRun(text.slice(lastIndex)));
+  }
+  return children;
+}
+
+/**
+ * Lay out the three slots on one line using center and right tab stops
+ */
+function renderSlots(slots: HeaderFooterSlots, context: HeaderFooterContext): Paragraph {
+  const width = pageTextWidth(context.page);
+  const tab = () => new docx.TextRun({ children: [new docx.Tab()] });
+
+  return new docx.Paragraph({
+    tabStops: [
+      { type: docx.TabStopType.CENTER, position: Math.round(width / 2) },
+      { type: docx.TabStopType.RIGHT, position: width },
+    ],
+    children: [
+      ...renderText(slots.left ?? "", context),
+      tab(),
+      ...renderText(slots.center ?? "", context),
+      tab(),
+      ...renderText(slots.right ?? "", context),
+    ],
+  });
+}
+
+function hasContent(slots?: HeaderFooterSlots): slots is HeaderFooterSlots {
+  return Boolean(slots && (slots.left || slots.center || slots.right));
+}
+
+/**
+ * Build the header/footer section options
+ */
+export function buildHeaderFooter(options: HeaderFooterOptions, context: HeaderFooterContext) {
+  const { header, footer, differentFirstPage = false } = options;
+  // An empty first page header/footer keeps Word from repeating the default one
+  const empty = () => [new docx.Paragraph({})];
+
+  return {
+    titlePage: differentFirstPage || undefined,
+    headers: hasContent(header)
+      ? {
+          default: new docx.Header({ children: [renderSlots(header, context)] }),
+          ...(differentFirstPage ? { first: new docx.Header({ children: empty() }) } : {}),
+        }
+      : undefined,
+    footers: hasContent(footer)
+      ? {
+          default: new docx.Footer({ children: [renderSlots(footer, context)] }),
+          ...(differentFirstPage ? { first: new docx.Footer({ children: empty() }) } : {}),
+        }
+      : undefined,
+  };
+}
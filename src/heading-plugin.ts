@@ -0,0 +1,48 @@
+import type { IPlugin } from "@m2d/core";
+
+export interface HeadingPluginOptions {
+  /**
+   * Whether H1 is rendered with the Title style (must match the section's `useTitle`)
+   * @default true
+   */
+  useTitle?: boolean;
+}
+
+/**
+ * Heading plugin.
+ * Renders headings that carry an explicit `data.bookmark` id (assigned when merging files),
+ * so that headings with the same text in different files keep distinct link targets.
+ */
+export function headingPlugin(options: HeadingPluginOptions = {}): IPlugin {
+  const { useTitle = true } = options;
+
+  return {
+    block(docx, node, paraProps, _blockChildrenProcessor, inlineChildrenProcessor) {
+      if (node.type !== "heading") {
+        return [];
+      }
+      const { bookmark, ...data } = (node.data ?? {}) as { bookmark?: string };
+      if (!bookmark) {
+        return [];
+      }
+
+      const heading = useTitle
+        ? node.depth === 1
+          ? "Title"
+          : `Heading${node.depth - 1}`
+        : `Heading${node.depth}`;
+
+      const paragraph = new docx.Paragraph({
+        ...paraProps,
+        ...data,
+        heading: heading as (typeof docx.HeadingLevel)[keyof typeof docx.HeadingLevel],
+        children: [new docx.Bookmark({ id: bookmark, children: inlineChildrenProcessor(node) })],
+      });
+
+      // Mark node as processed to avoid duplicate processing
+      (node as { type: string }).type = "";
+
+      return [paragraph];
+    },
+  };
+}
@@ -0,0 +1,72 @@
+import * as path from "node:path";
+import type { Heading, Root } from "mdast";
+import { visit } from "unist-util-visit";
+import { extractFrontMatter, formatValue } from "./frontmatter.js";
+
+/**
+ * Heading levels of merged files
+ */
+export interface HeadingOptions {
+  /**
+   * Levels to demote each file's headings by (negative numbers promote), or `"auto"` to nest
+   * chapters under the part and folder headings of `convertDirectory()`. Headings stay within H1-H6.
+   * @default 0
+   */
+  offset?: number | "auto";
+
+  /** Shift each file's headings so its top level is H1, before the offset is applied */
+  normalize?: boolean;
+
+  /**
+   * Give files without an H1 a chapter heading from their front matter `title`,
+   * or else from the file name (`02-getting-started.md` becomes "Getting started")
+   */
+  chapterTitles?: boolean;
+}
+
+/**
+ * Heading made from a file or folder name: "02-getting_started" becomes "Getting started"
+ */
+export function titleFromName(name: string): string {
+  const title = name.replace(/^\d+[-_. ]+/, "").replace(/[-_]+/g, " ").trim() || name;
+  return title.charAt(0).toUpperCase() + title.slice(1);
+}
+
+/**
+ * Chapter heading of a file: its front matter title, or its name (the folder's name for index.md / README.md)
+ */
+export function chapterTitle(filePath: string, content: string): string {
+  const title = formatValue(extractFrontMatter(content).data.title);
+  if (title) return title;
+  const name = path.basename(filePath, path.extname(filePath));
+  return titleFromName(/^(index|readme)$/i.test(name) ? path.basename(path.dirname(filePath)) : name);
+}
+
+/**
+ * Shift the headings of one merged file and add a chapter heading when it has none
+ * @param title chapter heading for a file without an H1, if wanted
+ */
+export function adjustHeadings(tree: Root, offset: number, normalize: boolean, title?: string): void {
+  const headings: Heading[] = [];
+  visit(tree, "heading", (heading) => {
+    headings.push(heading);
+  });
+
+  const top = Math.min(...headings.map((heading) => heading.depth));
+  const shift = normalize && headings.length > 0 ? 1 - top : 0;
+  for (const heading of headings) {
+    heading.depth = (heading.depth + shift) as Heading["depth"];
+  }
+
+  if (title && !headings.some((heading) => heading.depth === 1)) {
+    const heading: Heading = { type: "heading", depth: 1, children: [{ type: "text", value: title }] };
+    // After the front matter block, which is only kept for the first file
+    const index = tree.children[0]?.type === "yaml" ? 1 : 0;
+    tree.children.splice(index, 0, heading);
+    headings.push(heading);
+  }
+
+  for (const heading of headings) {
+    heading.depth = Math.min(Math.max(heading.depth + offset, 1), 6) as Heading["depth"];
+  }
+}
@@ -31,10 +31,92 @@ export interface Messages {
   cliOptOutput: string;
   cliOptSeparator: string;
   cliOptNoMermaid: string;
+  cliOptReferenceDoc: string;
+  cliOptStyleMap: string;
+  cliOptToc: string;
+  cliOptTocDepth: string;
+  cliOptTocTitle: string;
+  cliOptFigures: string;
+  cliOptFigureLabel: string;
+  cliOptListOfFigures: string;
+  cliOptAltCaptions: string;
+  cliOptCodeTheme: string;
+  cliOptCodeGrammar: string;
+  cliOptCodeAlias: string;
+  cliOptCodeContainer: string;
+  cliOptCodeBorder: string;
+  cliOptCodePadding: string;
+  cliOptCodeKeepTogether: string;
+  cliOptCodeOverflow: string;
+  cliOptTableLabel: string;
+  cliOptNoTableCaptions: string;
+  cliOptTableHeaderFill: string;
+  cliOptTableBanded: string;
+  cliOptTableBorders: string;
+  cliOptTableWidths: string;
+  cliOptNoTableHeaderRepeat: string;
+  cliOptTitlePage: string;
+  cliOptTitleLogo: string;
+  cliOptHeader: string;
+  cliOptFooter: string;
+  cliOptDifferentFirstPage: string;
+  cliOptMermaidConcurrency: string;
+  cliOptCacheDir: string;
+  cliOptCacheMaxSize: string;
+  cliOptCacheMaxAge: string;
+  cliExCache: string;
+  cacheDirectory: string;
+  cacheFiles: string;
+  cacheSize: string;
+  cacheOldest: string;
+  cacheCleared: string;
+  cacheUnknownCommand: string;
+  cliOptWatch: string;
+  watchWaiting: string;
+  watchChanged: string;
+  watchBuilt: string;
+  watchFailed: string;
+  cliOptConfig: string;
+  cliOptNoConfig: string;
+  cliOptProfile: string;
+  configUsing: string;
+  configProfile: string;
+  configProfileWithoutFile: string;
+  cliOptManifest: string;
+  cliOptNoManifest: string;
+  cliOptRecursive: string;
+  cliOptFolderHeadings: string;
+  cliOptInclude: string;
+  cliOptExclude: string;
+  cliOptHeadingOffset: string;
+  cliOptNormalizeHeadings: string;
+  cliOptChapterTitles: string;
+  cliOptBatch: string;
+  cliOptJobs: string;
+  cliOptForce: string;
+  cliExBatch: string;
+  cliBatch: string;
+  cliOutputDir: string;
+  batchUnchanged: string;
+  batchConverted: string;
+  batchSkipped: string;
+  batchFailed: string;
+  batchWithWatch: string;
+  cliManifest: string;
+  cliOptMermaidFormat: string;
+  cliOptOnMermaidError: string;
+  cliOptMermaidTheme: string;
+  cliOptMermaidBackground: string;
+  cliOptMermaidScale: string;
+  cliOptMermaidWidth: string;
+  cliOptMermaidConfig: string;
+  cliOptMermaidCss: string;
   cliOptHelp: string;
   cliExConvertSingle: string;
   cliExMergeDir: string;
   cliExWithSeparator: string;
+  cliExReferenceDoc: string;
+  cliExPageNumbers: string;
   cliInputRequired: string;
   cliMergeFiles: string;
   cliConvertFile: string;
@@ -123,10 +205,92 @@ const messages: Record<Language, Messages> = {
     cliOptOutput: "Specify output file path",
     cliOptSeparator: "Section separator: pagebreak, hr, none",
     cliOptNoMermaid: "Disable Mermaid rendering (auto-detect by default)",
+    cliOptReferenceDoc: "Use styles, theme and page setup from a .docx template",
+    cliOptStyleMap: "Map elements to template styles, e.g. code=SourceCode,table=GridTable",
+    cliOptToc: "Insert a table of contents (at start or at a [[toc]] marker)",
+    cliOptTocDepth: "Deepest heading level in the table of contents (default: 3)",
+    cliOptTocTitle: "Title above the table of contents",
+    cliOptFigures: "Add numbered captions to images with a title",
+    cliOptFigureLabel: "Caption label (default: Figure)",
+    cliOptListOfFigures: "Insert a list of figures",
+    cliOptAltCaptions: "Caption images without a title from their alt text",
+    cliOptCodeTheme: "Shiki theme for code blocks, or a theme JSON file (default: github-light)",
+    cliOptCodeGrammar: "TextMate grammar JSON file for a code language (repeatable)",
+    cliOptCodeAlias: "Code language aliases, e.g. tf=terraform,pipeline=yaml",
+    cliOptCodeContainer: "Code block layout: paragraphs, table (default: paragraphs)",
+    cliOptCodeBorder: "Code block border color (hex) or none",
+    cliOptCodePadding: "Space between the code block border and the code, in points (default: 4)",
+    cliOptCodeKeepTogether: "Keep each code block on one page",
+    cliOptCodeOverflow: "Long code lines: wrap, shrink (default: wrap)",
+    cliOptTableLabel: "Table caption label (default: Table)",
+    cliOptNoTableCaptions: "Keep `Table: ...` lines as text instead of numbered captions",
+    cliOptTableHeaderFill: "Header row color (hex) or none (default: B79C2F)",
+    cliOptTableBanded: "Shade every other table row",
+    cliOptTableBorders: "Table borders: all, horizontal, outer, none",
+    cliOptTableWidths: "Column widths: auto, content, equal",
+    cliOptNoTableHeaderRepeat: "Do not repeat the table header row on each page",
+    cliOptTitlePage: "Generate a cover page from front matter (title, subtitle, version...)",
+    cliOptTitleLogo: "Logo image for the cover page",
+    cliOptHeader: "Page header as \"left|center|right\" ({title} {page} {pages} {date} {chapter})",
+    cliOptFooter: "Page footer, same format as --header",
+    cliOptDifferentFirstPage: "No header/footer on the first page",
+    cliOptMermaidConcurrency: "Number of diagrams rendered in parallel (default: 4)",
+    cliOptCacheDir: "Directory for cached diagrams, reused between runs",
+    cliOptCacheMaxSize: "Cache size limit in MB (default: 200)",
+    cliOptCacheMaxAge: "Remove cached diagrams unused for this many days (default: 30)",
+    cliExCache: "Show or clear the diagram cache",
+    cacheDirectory: "Cache directory:",
+    cacheFiles: "Files:",
+    cacheSize: "Size:",
+    cacheOldest: "Least recently used:",
+    cacheCleared: "Removed cached files:",
+    cacheUnknownCommand: "Unknown cache command. Use: mermadoc cache stats|clear",
+    cliOptWatch: "Rebuild when the input or its images change",
+    watchWaiting: "Watching for changes... (Ctrl+C to stop)",
+    watchChanged: "Changed:",
+    watchBuilt: "Built in",
+    watchFailed: "Build failed after",
+    cliOptConfig: "Project config file (default: nearest mermadoc.config.json/.yaml)",
+    cliOptNoConfig: "Ignore project config files",
+    cliOptProfile: "Apply a named profile from the config file",
+    configUsing: "Config:",
+    configProfile: "profile",
+    configProfileWithoutFile: "No config file found for profile",
+    cliOptManifest: "Book manifest with chapter order (default: mermadoc.yaml or SUMMARY.md in the folder)",
+    cliOptNoManifest: "Merge all .md files of the folder, ignoring a manifest",
+    cliOptRecursive: "Also merge .md files in subfolders",
+    cliOptFolderHeadings: "Start each subfolder with its index.md/README.md or a heading from its name",
+    cliOptInclude: "Only merge files matching a glob, e.g. \"api/**\" (repeatable)",
+    cliOptExclude: "Leave out files matching a glob, e.g. \"drafts/**\" (repeatable)",
+    cliOptHeadingOffset: "Demote each merged file's headings by n levels, or auto to nest them under part headings",
+    cliOptNormalizeHeadings: "Shift each merged file so its top heading is H1",
+    cliOptChapterTitles: "Add an H1 from the front matter title or file name to files without one",
+    cliOptBatch: "Convert each .md file to its own .docx; -o is then the output folder",
+    cliOptJobs: "Files converted at the same time in batch mode (default: 4)",
+    cliOptForce: "Convert all files in batch mode, even unchanged ones",
+    cliExBatch: "Convert each file separately",
+    cliBatch: "Batch Convert",
+    cliOutputDir: "Output folder:",
+    batchUnchanged: "unchanged",
+    batchConverted: "Converted:",
+    batchSkipped: "unchanged:",
+    batchFailed: "failed:",
+    batchWithWatch: "--watch cannot be combined with --batch",
+    cliManifest: "Manifest:",
+    cliOptMermaidFormat: "Diagram image format: png, svg (default: png)",
+    cliOptOnMermaidError: "When a diagram fails: fail, placeholder (red box), source (code block, default)",
+    cliOptMermaidTheme: "Mermaid theme: default, forest, dark, neutral, base",
+    cliOptMermaidBackground: "Diagram background color (default: white)",
+    cliOptMermaidScale: "Diagram scale factor (default: 2)",
+    cliOptMermaidWidth: "Diagram layout width in pixels (default: 800)",
+    cliOptMermaidConfig: "Mermaid config JSON file",
+    cliOptMermaidCss: "CSS file for diagrams",
     cliOptHelp: "Show help",
     cliExConvertSingle: "# Convert single file",
     cliExMergeDir: "# Merge all files in directory",
     cliExWithSeparator: "# Use horizontal rule separator",
+    cliExReferenceDoc: "# Use the company Word template",
+    cliExPageNumbers: "# Add page numbers to the footer",
     cliInputRequired: "Please specify input file or directory",
     cliMergeFiles: "Merge Files",
     cliConvertFile: "Convert File",
@@ -214,10 +378,92 @@ const messages: Record<Language, Messages> = {
     cliOptOutput: "指定輸出檔案路徑",
     cliOptSeparator: "章節分隔方式: pagebreak（分頁）, hr（分隔線）, none（無）",
     cliOptNoMermaid: "停用 Mermaid 圖表渲染（預設自動偵測）",
+    cliOptReferenceDoc: "套用 .docx 範本的樣式、佈景主題與版面設定",
+    cliOptStyleMap: "將元素對應到範本樣式，例如 code=SourceCode,table=GridTable",
+    cliOptToc: "插入目錄（文件開頭或 [[toc]] 標記處）",
+    cliOptTocDepth: "目錄包含的最深標題層級（預設: 3）",
+    cliOptTocTitle: "目錄標題",
+    cliOptFigures: "為有標題的圖片加上編號圖說",
+    cliOptFigureLabel: "圖說標籤（預設：Figure）",
+    cliOptListOfFigures: "插入圖目錄",
+    cliOptAltCaptions: "沒有標題的圖片以替代文字作為圖說",
+    cliOptCodeTheme: "程式碼區塊的 Shiki 主題，或主題 JSON 檔（預設：github-light）",
+    cliOptCodeGrammar: "程式語言的 TextMate 語法 JSON 檔（可重複指定）",
+    cliOptCodeAlias: "程式語言別名，例如 tf=terraform,pipeline=yaml",
+    cliOptCodeContainer: "程式碼區塊版面：paragraphs、table（預設：paragraphs）",
+    cliOptCodeBorder: "程式碼區塊框線顏色（十六進位）或 none",
+    cliOptCodePadding: "程式碼區塊框線與程式碼的間距，單位為點（預設：4）",
+    cliOptCodeKeepTogether: "每個程式碼區塊保持在同一頁",
+    cliOptCodeOverflow: "過長的程式碼行：wrap、shrink（預設：wrap）",
+    cliOptTableLabel: "表格標題的標籤（預設：Table）",
+    cliOptNoTableCaptions: "將 `Table: ...` 行保留為文字，不產生編號表格標題",
+    cliOptTableHeaderFill: "表頭列顏色（十六進位）或 none（預設：B79C2F）",
+    cliOptTableBanded: "表格隔列加上底色",
+    cliOptTableBorders: "表格框線：all、horizontal、outer、none",
+    cliOptTableWidths: "欄寬：auto、content、equal",
+    cliOptNoTableHeaderRepeat: "不在每頁重複表格表頭列",
+    cliOptTitlePage: "依 front matter 產生封面頁（標題、副標題、版本…）",
+    cliOptTitleLogo: "封面頁的標誌圖片",
+    cliOptHeader: "頁首，格式為 \"左|中|右\"（{title} {page} {pages} {date} {chapter}）",
+    cliOptFooter: "頁尾，格式同 --header",
+    cliOptDifferentFirstPage: "第一頁不顯示頁首/頁尾",
+    cliOptMermaidConcurrency: "同時渲染的圖表數量（預設：4）",
+    cliOptCacheDir: "圖表快取資料夾，可在多次執行間重複使用",
+    cliOptCacheMaxSize: "快取大小上限，單位 MB（預設：200）",
+    cliOptCacheMaxAge: "移除超過指定天數未使用的快取圖表（預設：30）",
+    cliExCache: "顯示或清除圖表快取",
+    cacheDirectory: "快取資料夾：",
+    cacheFiles: "檔案數：",
+    cacheSize: "大小：",
+    cacheOldest: "最久未使用：",
+    cacheCleared: "已移除的快取檔案：",
+    cacheUnknownCommand: "未知的快取指令，請使用：mermadoc cache stats|clear",
+    cliOptWatch: "輸入檔案或其圖片變更時重新轉換",
+    watchWaiting: "正在監看變更……（按 Ctrl+C 停止）",
+    watchChanged: "已變更：",
+    watchBuilt: "轉換完成，耗時",
+    watchFailed: "轉換失敗，耗時",
+    cliOptConfig: "專案設定檔（預設：最近的 mermadoc.config.json/.yaml）",
+    cliOptNoConfig: "忽略專案設定檔",
+    cliOptProfile: "套用設定檔中的具名設定組",
+    configUsing: "設定檔：",
+    configProfile: "設定組",
+    configProfileWithoutFile: "找不到設定檔，無法套用設定組",
+    cliOptManifest: "指定章節順序的書籍清單檔（預設：資料夾中的 mermadoc.yaml 或 SUMMARY.md）",
+    cliOptNoManifest: "忽略書籍清單檔，合併資料夾內所有 .md 檔案",
+    cliOptRecursive: "一併合併子資料夾內的 .md 檔案",
+    cliOptFolderHeadings: "每個子資料夾以其 index.md/README.md 或資料夾名稱作為標題開頭",
+    cliOptInclude: "只合併符合 glob 的檔案，例如 \"api/**\"（可重複指定）",
+    cliOptExclude: "排除符合 glob 的檔案，例如 \"drafts/**\"（可重複指定）",
+    cliOptHeadingOffset: "將每個合併檔案的標題降 n 級，或以 auto 依分部標題自動調整",
+    cliOptNormalizeHeadings: "調整每個合併檔案的標題層級，使最高層級為 H1",
+    cliOptChapterTitles: "為沒有 H1 的檔案加上取自 front matter 標題或檔名的標題",
+    cliOptBatch: "將每個 .md 檔案各自轉為 .docx；此時 -o 為輸出資料夾",
+    cliOptJobs: "批次模式同時轉換的檔案數（預設：4）",
+    cliOptForce: "批次模式下轉換所有檔案，包括未變更的檔案",
+    cliExBatch: "逐一轉換各個檔案",
+    cliBatch: "批次轉換",
+    cliOutputDir: "輸出資料夾：",
+    batchUnchanged: "未變更",
+    batchConverted: "已轉換：",
+    batchSkipped: "未變更：",
+    batchFailed: "失敗：",
+    batchWithWatch: "--watch 無法與 --batch 同時使用",
+    cliManifest: "書籍清單：",
+    cliOptMermaidFormat: "圖表圖片格式：png、svg（預設：png）",
+    cliOptOnMermaidError: "圖表渲染失敗時：fail（中止）、placeholder（紅框訊息）、source（顯示原始碼，預設）",
+    cliOptMermaidTheme: "Mermaid 主題：default、forest、dark、neutral、base",
+    cliOptMermaidBackground: "圖表背景色（預設：white）",
+    cliOptMermaidScale: "圖表縮放倍率（預設：2）",
+    cliOptMermaidWidth: "圖表排版寬度，單位像素（預設：800）",
+    cliOptMermaidConfig: "Mermaid 設定 JSON 檔案",
+    cliOptMermaidCss: "圖表使用的 CSS 檔案",
     cliOptHelp: "顯示說明",
     cliExConvertSingle: "# 轉換單一檔案",
     cliExMergeDir: "# 合併整個資料夾的文件",
     cliExWithSeparator: "# 使用分隔線而非分頁",
+    cliExReferenceDoc: "# 套用公司 Word 範本",
+    cliExPageNumbers: "# 在頁尾加上頁碼",
     cliInputRequired: "請指定輸入檔案或資料夾",
     cliMergeFiles: "合併文件",
     cliConvertFile: "轉換文件",
@@ -1 +1,47 @@
-export { MdToDocxConverter, type ConvertOptions, type MergeOptions } from "./converter.js";
+export {
+  MdToDocxConverter,
+  type ConvertOptions,
+  type MergeOptions,
+  type ConversionResult,
+  type ConversionWarning,
+  type ConverterOptions,
+  type MermaidErrorMode,
+} from "./converter.js";
+export { type MermaidRendererOptions, type MermaidImageFormat } from "./mermaid-renderer.js";
+export { type StyleMap } from "./style-plugin.js";
+export { type TocPluginOptions } from "./toc-plugin.js";
+export { type DocumentMetadata } from "./frontmatter.js";
+export { type TitlePageOptions, type TitlePageField } from "./title-page-plugin.js";
+export { type HeaderFooterOptions, type HeaderFooterSlots } from "./header-footer.js";
+export { type MermaidOptions } from "./mermaid-options.js";
+export { type FigureOptions } from "./figure-plugin.js";
+export { type CodeBlockOptions, type CodeContainer, type CodeOverflow } from "./code-plugin.js";
+export { type TableOptions, type TableBorders, type TableColumnWidths } from "./table-plugin.js";
+export { type HeadingOptions } from "./headings.js";
+export { MermaidCache, type MermaidCacheOptions, type MermaidCacheStats } from "./mermaid-cache.js";
+export {
+  findProjectConfig,
+  loadProjectConfig,
+  mergeOptions,
+  type ProjectConfig,
+  type ProjectConfigOptions,
+} from "./project-config.js";
+export {
+  resolveBook,
+  loadManifest,
+  findManifest,
+  type Book,
+  type BookEntry,
+  type BookManifest,
+  type BookOptions,
+  type ChapterOptions,
+  type ManifestChapter,
+  type ManifestPart,
+} from "./manifest.js";
+export {
+  convertBatch,
+  batchFiles,
+  type BatchOptions,
+  type BatchItem,
+  type BatchResult,
+} from "./batch.js";
@@ -4,6 +4,7 @@ import * as readline from "node:readline";
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { MdToDocxConverter } from "./converter.js";
+import { containsMermaid } from "./mermaid-blocks.js";
 import { t, setLanguage, getLanguage, initLanguageFromConfig, saveConfig, type Language } from "./i18n.js";
 
 // ANSI color codes
@@ -137,10 +138,6 @@ function printMenu(): void {
 `);
 }
 
-function containsMermaid(content: string): boolean {
-  return /```mermaid\n[\s\S]*?```/.test(content);
-}
-
 function detectMermaidInPath(inputPath: string): boolean {
   const stat = fs.statSync(inputPath);
   if (stat.isDirectory()) {
@@ -232,9 +229,12 @@ async function convertSingleFile(): Promise<void> {
 
   try {
     const converter = new MdToDocxConverter();
-    await converter.convertFile(resolvedPath, finalOutput, {
+    const result = await converter.convertFile(resolvedPath, finalOutput, {
       enableMermaid: hasMermaid,
     });
+    for (const warning of result.warnings) {
+      console.log(`${c.yellow}!${c.reset} ${warning.message}`);
+    }
     console.log(`\n${c.green}✓${c.reset} ${t("done")} ${t("completed")} ${c.bright}${finalOutput}${c.reset}\n`);
   } catch (error) {
     console.log(`\n${c.red}✗${c.reset} ${t("conversionFailed")} ${error instanceof Error ? error.message : t("unknownError")}\n`);
@@ -347,10 +347,13 @@ async function mergeDirectory(): Promise<void> {
 
   try {
     const converter = new MdToDocxConverter();
-    await converter.convertDirectory(resolvedDir, finalOutput, {
+    const result = await converter.convertDirectory(resolvedDir, finalOutput, {
       enableMermaid: hasMermaid,
       separator,
     });
+    for (const warning of result.warnings) {
+      console.log(`${c.yellow}!${c.reset} ${warning.file ? `${path.basename(warning.file)}: ` : ""}${warning.message}`);
+    }
     console.log(`\n${c.green}✓${c.reset} ${t("done")} ${t("completed")} ${c.bright}${finalOutput}${c.reset}\n`);
   } catch (error) {
     console.log(`\n${c.red}✗${c.reset} ${t("conversionFailed")} ${error instanceof Error ? error.message : t("unknownError")}\n`);
@@ -431,10 +434,13 @@ async function specifyDirectory(): Promise<void> {
 
   try {
     const converter = new MdToDocxConverter();
-    await converter.convertDirectory(resolvedDir, finalOutput, {
+    const result = await converter.convertDirectory(resolvedDir, finalOutput, {
       enableMermaid: hasMermaid,
       separator,
     });
+    for (const warning of result.warnings) {
+      console.log(`${c.yellow}!${c.reset} ${warning.file ? `${path.basename(warning.file)}: ` : ""}${warning.message}`);
+    }
     console.log(`\n${c.green}✓${c.reset} ${t("done")} ${t("completed")} ${c.bright}${finalOutput}${c.reset}\n`);
   } catch (error) {
     console.log(`\n${c.red}✗${c.reset} ${t("conversionFailed")} ${error instanceof Error ? error.message : t("unknownError")}\n`);
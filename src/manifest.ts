@@ -0,0 +1,280 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import yaml from "js-yaml";
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import type { RootContent } from "@m2d/core";
+import { getTextContent } from "@m2d/core/utils";
+import { visit } from "unist-util-visit";
+import type { MermaidOptions } from "./mermaid-options.js";
+import { MERMAID_OPTIONS_SCHEMA } from "./project-config.js";
+import { hasUrlScheme } from "./urls.js";
+import { arrayOf, either, filePath, number, object, oneOf, resolvePaths, string, validate } from "./schema.js";
+import { matchesGlob } from "./glob.js";
+import { titleFromName } from "./headings.js";
+
+/** Manifest file names looked up in the input directory, first match wins */
+export const MANIFEST_FILES = ["mermadoc.yaml", "mermadoc.yml", "SUMMARY.md"];
+
+/** Files that introduce their folder when merging recursively (compared case-insensitively) */
+const INDEX_FILES = ["index.md", "readme.md"];
+
+export interface ChapterOptions {
+  /** Separator before this chapter, instead of the document's */
+  separator?: "pagebreak" | "hr" | "none";
+  /** Mermaid options for this chapter's diagrams, on top of the document's */
+  mermaid?: MermaidOptions;
+  /** Levels to shift this chapter's headings by, instead of `headings.offset` */
+  headingOffset?: number;
+}
+
+export interface ManifestChapter extends ChapterOptions {
+  /** Markdown file, relative to the manifest */
+  file: string;
+}
+
+export interface ManifestPart {
+  /** Part title, shown on its own page before the part's chapters */
+  part: string;
+  chapters: (string | ManifestChapter)[];
+}
+
+/**
+ * Book manifest (`mermadoc.yaml`). Without `chapters`, all Markdown files of the directory are merged
+ * in natural sort order.
+ */
+export interface BookManifest {
+  chapters?: (string | ManifestChapter | ManifestPart)[];
+  /** Glob patterns of files to leave out, relative to the manifest, e.g. `drafts/**` */
+  exclude?: string[];
+}
+
+export type BookEntry =
+  /** Heading before a group of chapters; folder headings are nested by `depth` (1 = H1) */
+  | { type: "part"; title: string; depth?: number }
+  /** `level` counts the part and folder headings the chapter is nested under */
+  | ({ type: "chapter"; file: string; level?: number } & ChapterOptions);
+
+export interface Book {
+  /** Manifest the entries come from */
+  manifest?: string;
+  /** Parts and chapters in document order, with absolute file paths */
+  entries: BookEntry[];
+}
+
+export interface BookOptions {
+  /**
+   * Manifest file, or `false` to merge the directory's files without one
+   * @default the first of MANIFEST_FILES found in the directory
+   */
+  manifest?: string | false;
+  /** File order without a manifest listing the chapters, defaults to natural sort by filename */
+  sortFn?: (a: string, b: string) => number;
+  /** Also merge the Markdown files of subdirectories, folder by folder. Not used when a manifest lists chapters. */
+  recursive?: boolean;
+  /**
+   * When merging recursively, start each folder with a heading: its index.md or README.md,
+   * or a heading made from the folder name (`02-api` becomes "Api")
+   */
+  folderHeadings?: boolean;
+  /** Glob patterns of files to merge, relative to the input directory, e.g. `api/**` */
+  include?: string[];
+  /** Glob patterns of files to leave out, relative to the input directory, on top of the manifest's `exclude` */
+  exclude?: string[];
+}
+
+const chapterOptions = {
+  separator: oneOf("pagebreak", "hr", "none"),
+  mermaid: MERMAID_OPTIONS_SCHEMA,
+  headingOffset: number,
+};
+const chapter = either(filePath, object({ file: filePath, ...chapterOptions }));
+
+const MANIFEST_SCHEMA = object({
+  chapters: arrayOf(either(chapter, object({ part: string, chapters: arrayOf(chapter) }))),
+  exclude: arrayOf(string),
+});
+
+const parser = unified().use(remarkParse).use(remarkGfm);
+
+/**
+ * Natural sort, so "2-setup.md" comes before "10-faq.md"
+ */
+export function naturalSort(a: string, b: string): number {
+  const regex = /(\d+)|(\D+)/g;
+  const aParts = a.match(regex) || [];
+  const bParts = b.match(regex) || [];
+
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const aPart = aParts[i] || "";
+    const bPart = bParts[i] || "";
+
+    const aNum = parseInt(aPart, 10);
+    const bNum = parseInt(bPart, 10);
+
+    if (!isNaN(aNum) && !isNaN(bNum)) {
+      if (aNum !== bNum) return aNum - bNum;
+    } else {
+      const cmp = aPart.localeCompare(bPart);
+      if (cmp !== 0) return cmp;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Markdown file a SUMMARY.md link points to, if any
+ */
+function chapterTarget(url: string): string | undefined {
+  // External links and draft entries ("[Draft]()") are not chapters
+  if (!url || url.startsWith("#") || hasUrlScheme(url)) return undefined;
+  let target = url.split("#")[0];
+  try {
+    target = decodeURI(target);
+  } catch {
+    // Keep malformed escapes as written
+  }
+  return target.toLowerCase().endsWith(".md") ? target : undefined;
+}
+
+/**
+ * Read a GitBook-style SUMMARY.md: linked files are chapters, headings (other than the title) start parts
+ */
+function parseSummary(file: string): BookManifest {
+  const tree = parser.parse(fs.readFileSync(file, "utf-8"));
+  const chapters: NonNullable<BookManifest["chapters"]> = [];
+  let part: ManifestPart | undefined;
+
+  tree.children.forEach((node, index) => {
+    if (node.type === "heading") {
+      // "# Summary" titles the file
+      if (index === 0 && node.depth === 1) return;
+      part = { part: getTextContent(node as unknown as RootContent).trim(), chapters: [] };
+      chapters.push(part);
+    } else if (node.type === "list") {
+      visit(node, "link", (link) => {
+        const target = chapterTarget(link.url);
+        if (target) (part?.chapters ?? chapters).push(target);
+      });
+    }
+  });
+  return { chapters };
+}
+
+/**
+ * Chapters of a directory in sort order; subdirectories are walked in place when merging recursively
+ */
+function directoryEntries(
+  dir: string,
+  depth: number,
+  options: BookOptions,
+  included: (file: string) => boolean
+): BookEntry[] {
+  const sortFn = options.sortFn || naturalSort;
+  const isIndex = (name: string) => INDEX_FILES.includes(name.toLowerCase());
+  const first = (item: fs.Dirent) => Boolean(options.recursive) && !item.isDirectory() && isIndex(item.name);
+
+  const items = fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter((item) =>
+      item.isDirectory()
+        ? options.recursive && !item.name.startsWith(".") && item.name !== "node_modules"
+        : item.name.endsWith(".md") && !(depth === 0 && MANIFEST_FILES.includes(item.name))
+    )
+    // The index file comes first, files and folders are sorted together
+    .sort((a, b) => Number(first(b)) - Number(first(a)) || sortFn(a.name, b.name));
+
+  // Files are nested under the headings of their folder and its parents
+  const level = options.folderHeadings ? depth : undefined;
+  const entries = items.flatMap((item): BookEntry[] => {
+    const itemPath = path.join(dir, item.name);
+    if (item.isDirectory()) return directoryEntries(itemPath, depth + 1, options, included);
+    return included(itemPath) ? [{ type: "chapter", file: itemPath, level }] : [];
+  });
+
+  if (depth === 0 || !options.folderHeadings || entries.length === 0) return entries;
+  // An index file is the folder's heading
+  const [entry] = entries;
+  if (entry.type === "chapter" && path.dirname(entry.file) === dir && isIndex(path.basename(entry.file))) {
+    return [{ ...entry, level: depth - 1 }, ...entries.slice(1)];
+  }
+  return [{ type: "part", title: titleFromName(path.basename(dir)), depth: Math.min(depth, 6) }, ...entries];
+}
+
+/**
+ * Find the manifest of a directory
+ */
+export function findManifest(dir: string): string | undefined {
+  return MANIFEST_FILES.map((name) => path.join(path.resolve(dir), name)).find((file) => fs.existsSync(file));
+}
+
+/**
+ * Read and validate a manifest (`mermadoc.yaml` or `SUMMARY.md`)
+ * @returns the manifest with chapter paths made absolute
+ */
+export function loadManifest(manifestPath: string): BookManifest {
+  const absolutePath = path.resolve(manifestPath);
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`Book manifest not found: ${absolutePath}`);
+  }
+
+  let data: unknown;
+  if (absolutePath.toLowerCase().endsWith(".md")) {
+    data = parseSummary(absolutePath);
+  } else {
+    try {
+      data = yaml.load(fs.readFileSync(absolutePath, "utf-8")) ?? {};
+    } catch (error) {
+      throw new Error(`Invalid book manifest ${absolutePath}: ${(error as Error).message}`);
+    }
+  }
+
+  const errors: string[] = [];
+  validate(data, MANIFEST_SCHEMA, "", errors);
+  if (errors.length > 0) {
+    throw new Error(`Invalid book manifest ${absolutePath}:\n${errors.map((error) => `  - ${error}`).join("\n")}`);
+  }
+  return resolvePaths(data, MANIFEST_SCHEMA, path.dirname(absolutePath)) as BookManifest;
+}
+
+/**
+ * Parts and chapters of a directory, from its manifest or in file name order
+ */
+export function resolveBook(inputDir: string, options: BookOptions = {}): Book {
+  const dir = path.resolve(inputDir);
+  const manifest =
+    options.manifest === false ? undefined : options.manifest ? path.resolve(options.manifest) : findManifest(dir);
+  const { chapters, exclude = [] } = manifest ? loadManifest(manifest) : ({} as BookManifest);
+  const { include = [], exclude: excludeOption = [] } = options;
+  // Manifest patterns are relative to the manifest, option patterns to the input directory
+  const included = (file: string) => {
+    const relativePath = path.relative(dir, file);
+    return (
+      (include.length === 0 || matchesGlob(relativePath, include)) &&
+      !matchesGlob(relativePath, excludeOption) &&
+      !(manifest && matchesGlob(path.relative(path.dirname(manifest), file), exclude))
+    );
+  };
+
+  if (!chapters) {
+    return { manifest, entries: directoryEntries(dir, 0, options, included) };
+  }
+
+  const toChapter = (item: string | ManifestChapter, level?: number): BookEntry[] => {
+    const { file, ...chapterOptions } = typeof item === "string" ? { file: item } : item;
+    if (!included(file)) return [];
+    if (!fs.existsSync(file)) {
+      throw new Error(`Chapter file not found: ${file} (listed in ${manifest})`);
+    }
+    return [{ type: "chapter", file, level, ...chapterOptions }];
+  };
+
+  const entries = chapters.flatMap((item): BookEntry[] =>
+    typeof item === "object" && "part" in item
+      ? [{ type: "part", title: item.part }, ...item.chapters.flatMap((chapter) => toChapter(chapter, 1))]
+      : toChapter(item)
+  );
+  return { manifest, entries };
+}
@@ -0,0 +1,60 @@
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import remarkFrontmatter from "remark-frontmatter";
+import remarkMath from "remark-math";
+import type { Code, Parent, Root } from "mdast";
+import { visit } from "unist-util-visit";
+import { parseBlockAttributes, type MermaidBlockAttributes } from "./mermaid-options.js";
+
+export interface MermaidBlock {
+  /** The fenced code node, replaced by the rendered image */
+  node: Code;
+  parent: Parent;
+  code: string;
+  attributes: MermaidBlockAttributes;
+}
+
+/** Same syntax extensions as the converter, so fences are found exactly where they are rendered */
+const parser = unified().use(remarkParse).use(remarkGfm).use(remarkFrontmatter).use(remarkMath);
+
+/**
+ * The language is "mermaid", possibly followed directly by attributes: ```` ```mermaid{width=60%} ````
+ */
+function mermaidMeta(node: Code): string | undefined {
+  const lang = node.lang ?? "";
+  if (lang !== "mermaid" && !lang.startsWith("mermaid{")) return undefined;
+  return `${lang.slice("mermaid".length)} ${node.meta ?? ""}`;
+}
+
+/**
+ * Mermaid code blocks anywhere in the tree, including lists and block quotes
+ * @param onWarning receives problems with a block's attributes
+ */
+export function findMermaidBlocks(tree: Root, onWarning?: (message: string, node: Code) => void): MermaidBlock[] {
+  const blocks: MermaidBlock[] = [];
+  visit(tree, "code", (node, _index, parent) => {
+    const meta = mermaidMeta(node);
+    if (meta !== undefined && parent) {
+      // CRLF files render (and are cached) like LF files
+      const code = node.value.replace(/\r\n?/g, "\n");
+      const attributes = parseBlockAttributes(meta, (message) => onWarning?.(message, node));
+      blocks.push({ node, parent, code, attributes });
+    }
+  });
+  return blocks;
+}
+
+/**
+ * Check if Markdown contains Mermaid code blocks
+ */
+export function containsMermaid(markdown: string): boolean {
+  let found = false;
+  visit(parser.parse(markdown), "code", (node) => {
+    if (mermaidMeta(node) !== undefined) {
+      found = true;
+      return false;
+    }
+  });
+  return found;
+}
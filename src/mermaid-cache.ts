@@ -0,0 +1,192 @@
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import { createRequire } from "node:module";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { MermaidRenderSettings } from "./mermaid-options.js";
+import type { MermaidImageFormat } from "./mermaid-renderer.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Cached images and the temp files `set()` writes them through; other files in the directory are left alone */
+const CACHE_FILE = /^[0-9a-f]{64}\.(png|svg)(\.\d+\.tmp)?$/;
+
+export interface MermaidCacheOptions {
+  /**
+   * Directory for rendered diagrams, kept between runs (e.g. restored by CI)
+   * @default os.tmpdir()/md-docx-mermaid
+   */
+  dir?: string;
+
+  /**
+   * Total size above which the least recently used diagrams are removed (unit: bytes)
+   * @default 200 MB
+   */
+  maxSize?: number;
+
+  /**
+   * Diagrams not used for this long are removed (unit: ms)
+   * @default 30 days
+   */
+  maxAge?: number;
+}
+
+export interface MermaidCacheStats {
+  dir: string;
+  files: number;
+  /** Total size (unit: bytes) */
+  size: number;
+  /** Last use of the least recently used file */
+  oldest?: Date;
+}
+
+let mermaidVersion: string | undefined;
+
+/**
+ * Version of the installed mermaid package, part of the cache key
+ */
+function getMermaidVersion(): string {
+  if (mermaidVersion === undefined) {
+    try {
+      mermaidVersion = String(createRequire(import.meta.url)("mermaid/package.json").version);
+    } catch {
+      mermaidVersion = "unknown";
+    }
+  }
+  return mermaidVersion;
+}
+
+/**
+ * File cache of rendered Mermaid diagrams.
+ * Entries are keyed by diagram source, mermaid version and render settings, and expire by age and total size.
+ */
+export class MermaidCache {
+  readonly dir: string;
+  private readonly maxSize: number;
+  private readonly maxAge: number;
+
+  constructor(options: MermaidCacheOptions = {}) {
+    this.dir = path.resolve(options.dir ?? path.join(os.tmpdir(), "md-docx-mermaid"));
+    this.maxSize = options.maxSize ?? 200 * 1024 * 1024;
+    this.maxAge = options.maxAge ?? 30 * DAY;
+  }
+
+  /**
+   * Cache key of a diagram. Formats rendered from the same key share it.
+   */
+  key(code: string, settings: MermaidRenderSettings): string {
+    return crypto
+      .createHash("sha256")
+      .update(JSON.stringify([getMermaidVersion(), code, settings]))
+      .digest("hex");
+  }
+
+  filePath(key: string, format: MermaidImageFormat): string {
+    return path.join(this.dir, `${key}.${format}`);
+  }
+
+  /**
+   * Path of a cached image, or undefined when it is not cached
+   */
+  get(key: string, format: MermaidImageFormat): string | undefined {
+    const file = this.filePath(key, format);
+    try {
+      // Touching the file marks it as recently used
+      const now = new Date();
+      fs.utimesSync(file, now, now);
+      return file;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a rendered image and return its path
+   */
+  set(key: string, format: MermaidImageFormat, data: Buffer): string {
+    const file = this.filePath(key, format);
+    fs.mkdirSync(this.dir, { recursive: true });
+    // Write then rename, so parallel builds sharing the cache never read a partial file
+    const temp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(temp, data);
+    fs.renameSync(temp, file);
+    return file;
+  }
+
+  /**
+   * Remove expired files, then the least recently used ones until the cache fits its size limit
+   * @param keep files that are never removed, e.g. those a running conversion still reads
+   * @returns number of removed files
+   */
+  prune(keep: ReadonlySet<string> = new Set()): number {
+    const now = Date.now();
+    let removed = 0;
+    let size = 0;
+    const kept: { file: string; size: number; time: number }[] = [];
+
+    for (const entry of this.entries()) {
+      if (keep.has(entry.file)) {
+        size += entry.size;
+      } else if (now - entry.time > this.maxAge) {
+        removed += this.remove(entry.file);
+      } else {
+        kept.push(entry);
+        size += entry.size;
+      }
+    }
+
+    // Kept files still count towards the size limit
+    kept.sort((a, b) => a.time - b.time);
+    for (const entry of kept) {
+      if (size <= this.maxSize) break;
+      removed += this.remove(entry.file);
+      size -= entry.size;
+    }
+    return removed;
+  }
+
+  stats(): MermaidCacheStats {
+    const entries = this.entries();
+    const stats: MermaidCacheStats = {
+      dir: this.dir,
+      files: entries.length,
+      size: entries.reduce((sum, entry) => sum + entry.size, 0),
+    };
+    if (entries.length === 0) return stats;
+    return { ...stats, oldest: new Date(entries.reduce((min, entry) => Math.min(min, entry.time), Infinity)) };
+  }
+
+  /**
+   * Remove all cached files
+   * @returns number of removed files
+   */
+  clear(): number {
+    return this.entries().reduce((removed, entry) => removed + this.remove(entry.file), 0);
+  }
+
+  private entries(): { file: string; size: number; time: number }[] {
+    if (!fs.existsSync(this.dir)) return [];
+    return fs
+      .readdirSync(this.dir, { withFileTypes: true })
+      .filter((entry) => entry.isFile() && CACHE_FILE.test(entry.name))
+      .flatMap((entry) => {
+        const file = path.join(this.dir, entry.name);
+        try {
+          const stat = fs.statSync(file);
+          return [{ file, size: stat.size, time: stat.mtimeMs }];
+        } catch {
+          // Removed by another process in the meantime
+          return [];
+        }
+      });
+  }
+
+  private remove(file: string): number {
+    try {
+      fs.unlinkSync(file);
+      return 1;
+    } catch {
+      return 0;
+    }
+  }
+}
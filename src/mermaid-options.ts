@@ -0,0 +1,175 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+/**
+ * Mermaid rendering settings, matching the mmdc command line options
+ */
+export interface MermaidOptions {
+  /**
+   * Mermaid theme: "default", "forest", "dark", "neutral" or "base"
+   * @default "default"
+   */
+  theme?: string;
+
+  /** Theme variables, e.g. `{ primaryColor: "#ffcc00" }` (use with the "base" theme) */
+  themeVariables?: Record<string, string>;
+
+  /**
+   * Background color, e.g. "white", "#F0F0F0" or "transparent"
+   * @default "white"
+   */
+  background?: string;
+
+  /**
+   * Device scale factor of the rendered image
+   * @default 2
+   */
+  scale?: number;
+
+  /**
+   * Width of the page the diagram is laid out in (unit: px)
+   * @default 800
+   */
+  width?: number;
+
+  /** JSON file with a Mermaid config object (like `mmdc --configFile`) */
+  configFile?: string;
+
+  /** CSS file injected into the rendered diagram (like `mmdc --cssFile`) */
+  cssFile?: string;
+}
+
+/**
+ * Attributes on a mermaid fence, e.g. ```` ```mermaid {width=60% theme=forest caption="Login flow"} ````
+ */
+export interface MermaidBlockAttributes {
+  /** Display width in the document: a percentage of the text width or pixels ("60%", "400px") */
+  width?: string;
+  theme?: string;
+  background?: string;
+  scale?: number;
+  caption?: string;
+}
+
+/**
+ * Settings passed to the mermaid-cli renderer
+ */
+export interface MermaidRenderSettings {
+  backgroundColor: string;
+  viewport: { width: number; height: number; deviceScaleFactor: number };
+  mermaidConfig: Record<string, unknown>;
+  myCSS?: string;
+}
+
+const ATTRIBUTE = /([\w-]+)=(?:"([^"]*)"|'([^']*)'|([^\s}]+))/g;
+
+/**
+ * Parse `{key=value key="quoted value"}` attributes from a fence info string
+ * @param onWarning receives invalid and unknown attributes, which are ignored
+ */
+export function parseBlockAttributes(
+  meta: string,
+  onWarning: (message: string) => void = () => {}
+): MermaidBlockAttributes {
+  const body = meta.match(/\{([^}]*)\}/)?.[1];
+  if (!body) return {};
+
+  const attributes: MermaidBlockAttributes = {};
+  for (const match of body.matchAll(ATTRIBUTE)) {
+    const value = match[2] ?? match[3] ?? match[4];
+    switch (match[1]) {
+      case "width":
+        if (/^\d+(\.\d+)?(%|px)?$/.test(value)) {
+          attributes.width = value;
+        } else {
+          onWarning(`Ignoring invalid mermaid width: ${value}. Use a percentage or pixels, e.g. 60% or 400px.`);
+        }
+        break;
+      case "theme":
+      case "background":
+      case "caption":
+        attributes[match[1]] = value;
+        break;
+      case "scale": {
+        const scale = parseFloat(value);
+        if (scale > 0) {
+          attributes.scale = scale;
+        } else {
+          onWarning(`Ignoring invalid mermaid scale: ${value}. Use a positive number, e.g. 2.`);
+        }
+        break;
+      }
+      default:
+        onWarning(`Ignoring unknown mermaid attribute: ${match[1]}`);
+    }
+  }
+  return attributes;
+}
+
+function readOptionFile(filePath: string, description: string): string {
+  const absolutePath = path.resolve(filePath);
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`Mermaid ${description} not found: ${absolutePath}`);
+  }
+  return fs.readFileSync(absolutePath, "utf-8");
+}
+
+/**
+ * Turn Mermaid options into renderer settings, reading the config and CSS files
+ */
+export function resolveRenderSettings(options: MermaidOptions = {}): MermaidRenderSettings {
+  let fileConfig: Record<string, unknown> = {};
+  if (options.configFile) {
+    try {
+      fileConfig = JSON.parse(readOptionFile(options.configFile, "config file"));
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new Error(`Invalid Mermaid config file ${options.configFile}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  const themeVariables = {
+    ...(fileConfig.themeVariables as Record<string, string> | undefined),
+    ...options.themeVariables,
+  };
+
+  return {
+    backgroundColor: options.background ?? "white",
+    viewport: { width: options.width ?? 800, height: 600, deviceScaleFactor: options.scale ?? 2 },
+    mermaidConfig: {
+      theme: "default",
+      ...fileConfig,
+      ...(options.theme ? { theme: options.theme } : {}),
+      ...(Object.keys(themeVariables).length > 0 ? { themeVariables } : {}),
+    },
+    myCSS: options.cssFile ? readOptionFile(options.cssFile, "CSS file") : undefined,
+  };
+}
+
+/**
+ * Settings for SVG output. Labels are written as SVG text, as Word does not draw HTML labels (`<foreignObject>`).
+ */
+export function applySvgLabels(settings: MermaidRenderSettings): MermaidRenderSettings {
+  const flowchart = settings.mermaidConfig.flowchart as Record<string, unknown> | undefined;
+  return {
+    ...settings,
+    mermaidConfig: { ...settings.mermaidConfig, htmlLabels: false, flowchart: { ...flowchart, htmlLabels: false } },
+  };
+}
+
+/**
+ * Apply per-block attributes on top of the document-wide settings
+ */
+export function applyBlockAttributes(
+  settings: MermaidRenderSettings,
+  attributes: MermaidBlockAttributes
+): MermaidRenderSettings {
+  return {
+    ...settings,
+    backgroundColor: attributes.background ?? settings.backgroundColor,
+    viewport: { ...settings.viewport, deviceScaleFactor: attributes.scale ?? settings.viewport.deviceScaleFactor },
+    mermaidConfig: attributes.theme ? { ...settings.mermaidConfig, theme: attributes.theme } : settings.mermaidConfig,
+  };
+}
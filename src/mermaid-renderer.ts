@@ -0,0 +1,117 @@
+import type { Browser, LaunchOptions } from "puppeteer";
+import { resolveRenderSettings, type MermaidRenderSettings } from "./mermaid-options.js";
+
+/** mermaid-cli, imported on the first render and shared by all later ones */
+let cliModule: Promise<typeof import("@mermaid-js/mermaid-cli")> | undefined;
+
+export type MermaidImageFormat = "png" | "svg";
+
+export interface MermaidRendererOptions {
+  /**
+   * Maximum number of diagrams rendered at the same time (one browser page each)
+   * @default 4
+   */
+  concurrency?: number;
+
+  /**
+   * Puppeteer launch options, e.g. `{ executablePath: "/usr/bin/chromium" }`
+   * @default { headless: "shell" }
+   */
+  puppeteerConfig?: LaunchOptions;
+
+  /**
+   * Close the browser after it has been idle for this long (unit: ms)
+   * @default 5000
+   */
+  idleTimeout?: number;
+}
+
+/**
+ * Renders Mermaid diagrams in a single shared headless browser.
+ * The browser is launched on first use and closed when idle or on `close()`.
+ */
+export class MermaidRenderer {
+  private readonly concurrency: number;
+  private readonly puppeteerConfig: LaunchOptions;
+  private readonly idleTimeout: number;
+
+  private browser?: Promise<Browser>;
+  private idleTimer?: NodeJS.Timeout;
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(options: MermaidRendererOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? 4);
+    this.puppeteerConfig = { headless: "shell", ...options.puppeteerConfig };
+    this.idleTimeout = options.idleTimeout ?? 5000;
+  }
+
+  /**
+   * Render a diagram, by default with the same settings as `mmdc -b white -s 2`
+   */
+  async render(
+    code: string,
+    format: MermaidImageFormat,
+    settings: MermaidRenderSettings = resolveRenderSettings()
+  ): Promise<Buffer> {
+    await this.acquire();
+    try {
+      const { renderMermaid } = await (cliModule ??= import("@mermaid-js/mermaid-cli"));
+      const browser = await this.getBrowser();
+      const { data } = await renderMermaid(browser, code, format, settings);
+      return Buffer.from(data);
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Close the shared browser. A later render launches a new one.
+   */
+  async close(): Promise<void> {
+    clearTimeout(this.idleTimer);
+    const browser = this.browser;
+    this.browser = undefined;
+    if (browser) {
+      // A failed launch has nothing to close
+      await browser.then((instance) => instance.close(), () => undefined);
+    }
+  }
+
+  private getBrowser(): Promise<Browser> {
+    if (!this.browser) {
+      const launch = import("puppeteer").then(({ default: puppeteer }) => puppeteer.launch(this.puppeteerConfig));
+      // Let the next render retry instead of reusing a failed launch
+      launch.catch(() => {
+        if (this.browser === launch) this.browser = undefined;
+      });
+      this.browser = launch;
+    }
+    return this.browser;
+  }
+
+  private async acquire(): Promise<void> {
+    clearTimeout(this.idleTimer);
+    if (this.active < this.concurrency) {
+      this.active++;
+      return;
+    }
+    // The slot is handed over directly by release()
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+      return;
+    }
+    this.active--;
+    if (this.active === 0) {
+      // A browser that already crashed may fail to close; there is nothing left to do about it
+      this.idleTimer = setTimeout(() => void this.close().catch(() => undefined), this.idleTimeout);
+      // The timer alone should not keep the process running
+      this.idleTimer.unref();
+    }
+  }
+}
@@ -0,0 +1,207 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import yaml from "js-yaml";
+import type { ConverterOptions, MergeOptions } from "./converter.js";
+import {
+  anyObject,
+  arrayOf,
+  boolean,
+  either,
+  filePath,
+  filePathIf,
+  isPlainObject,
+  number,
+  object,
+  oneOf,
+  recordOf,
+  resolvePaths,
+  string,
+  validate,
+} from "./schema.js";
+
+/** File names looked up from the input path upwards, first match wins */
+export const CONFIG_FILES = ["mermadoc.config.json", "mermadoc.config.yaml", "mermadoc.config.yml"];
+
+/**
+ * Options of a project config file: everything `convertFile()` and `convertDirectory()` accept,
+ * plus the output path and converter settings. Relative paths are resolved against the config file.
+ */
+export interface ProjectConfigOptions extends Omit<MergeOptions, "sortFn"> {
+  /** Output .docx path */
+  output?: string;
+  /** Mermaid browser and diagram cache settings */
+  converter?: ConverterOptions;
+}
+
+export interface ProjectConfig extends ProjectConfigOptions {
+  /** Named option sets applied on top of the base options, e.g. `--profile print` */
+  profiles?: Record<string, ProjectConfigOptions>;
+}
+
+const slots = object({ left: string, center: string, right: string });
+
+/** Mermaid options, also accepted per chapter in book manifests */
+export const MERMAID_OPTIONS_SCHEMA = object({
+  theme: string,
+  themeVariables: recordOf(string),
+  background: string,
+  scale: number,
+  width: number,
+  configFile: filePath,
+  cssFile: filePath,
+});
+
+const OPTIONS_SCHEMA = {
+  output: filePath,
+  enableMermaid: boolean,
+  mermaidFormat: oneOf("png", "svg"),
+  mermaid: MERMAID_OPTIONS_SCHEMA,
+  onMermaidError: oneOf("fail", "placeholder", "source"),
+  baseDir: filePath,
+  referenceDocx: filePath,
+  styleMap: object({ paragraph: string, blockquote: string, code: string, table: string, caption: string }),
+  toc: either(boolean, object({ depth: number, title: string, useTitle: boolean })),
+  metadata: object({
+    title: string,
+    author: string,
+    subject: string,
+    keywords: string,
+    description: string,
+    lastModifiedBy: string,
+    custom: recordOf(string),
+  }),
+  titlePage: either(
+    boolean,
+    object({
+      layout: arrayOf(
+        object({
+          key: string,
+          prefix: string,
+          size: number,
+          bold: boolean,
+          italics: boolean,
+          color: string,
+          spacingBefore: number,
+          alignment: oneOf("left", "center", "right"),
+        })
+      ),
+      logo: filePath,
+      logoWidth: number,
+      verticallyCentered: boolean,
+    })
+  ),
+  figures: either(boolean, object({ label: string, fromAlt: boolean, listOfFigures: boolean, listTitle: string })),
+  // Theme names are kept, theme JSON files are paths
+  codeTheme: filePathIf(/\.json$/i),
+  codeGrammars: arrayOf(filePath),
+  codeLanguageAliases: recordOf(string),
+  codeBlocks: object({
+    container: oneOf("paragraphs", "table"),
+    borderColor: either(string, oneOf(false)),
+    padding: number,
+    keepTogether: boolean,
+    overflow: oneOf("wrap", "shrink"),
+  }),
+  tables: object({
+    captions: boolean,
+    label: string,
+    headerFill: either(string, oneOf(false)),
+    bandedRows: either(boolean, string),
+    borders: oneOf("all", "horizontal", "outer", "none"),
+    borderColor: string,
+    columnWidths: oneOf("auto", "content", "equal"),
+    repeatHeader: boolean,
+  }),
+  headerFooter: object({ header: slots, footer: slots, differentFirstPage: boolean }),
+  separator: oneOf("pagebreak", "hr", "none"),
+  manifest: either(filePath, oneOf(false)),
+  recursive: boolean,
+  folderHeadings: boolean,
+  include: arrayOf(string),
+  exclude: arrayOf(string),
+  headings: object({ offset: either(number, oneOf("auto")), normalize: boolean, chapterTitles: boolean }),
+  converter: object({
+    mermaid: object({ concurrency: number, idleTimeout: number, puppeteerConfig: anyObject }),
+    cache: object({ dir: filePath, maxSize: number, maxAge: number }),
+  }),
+};
+
+const CONFIG_SCHEMA = object({
+  // Lets editors find a JSON schema; not used here
+  $schema: string,
+  ...OPTIONS_SCHEMA,
+  profiles: recordOf(object(OPTIONS_SCHEMA)),
+});
+
+/**
+ * Deep merge of option objects. Undefined values in `override` are skipped, lists and other values replace.
+ */
+export function mergeOptions<T extends object>(base: T, override: T): T {
+  const merged: Record<string, unknown> = { ...(base as Record<string, unknown>) };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key]) ? mergeOptions(merged[key], value) : value;
+  }
+  return merged as T;
+}
+
+/**
+ * Find the nearest config file, looking in the input's directory and then its parents
+ */
+export function findProjectConfig(inputPath: string): string | undefined {
+  const absolutePath = path.resolve(inputPath);
+  let dir =
+    fs.existsSync(absolutePath) && fs.statSync(absolutePath).isDirectory() ? absolutePath : path.dirname(absolutePath);
+
+  for (;;) {
+    for (const name of CONFIG_FILES) {
+      const candidate = path.join(dir, name);
+      if (fs.existsSync(candidate)) return candidate;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Read and validate a config file, and apply a profile
+ * @returns options with absolute paths, without `profiles`
+ */
+export function loadProjectConfig(configFile: string, profile?: string): ProjectConfigOptions {
+  const absolutePath = path.resolve(configFile);
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`Config file not found: ${absolutePath}`);
+  }
+
+  let data: unknown;
+  try {
+    const content = fs.readFileSync(absolutePath, "utf-8");
+    data = absolutePath.toLowerCase().endsWith(".json") ? JSON.parse(content) : yaml.load(content);
+  } catch (error) {
+    throw new Error(`Invalid config file ${absolutePath}: ${(error as Error).message}`);
+  }
+  // An empty YAML file has no options
+  data ??= {};
+
+  const errors: string[] = [];
+  validate(data, CONFIG_SCHEMA, "", errors);
+  if (errors.length > 0) {
+    throw new Error(`Invalid config file ${absolutePath}:\n${errors.map((error) => `  - ${error}`).join("\n")}`);
+  }
+
+  const { $schema: _schema, profiles = {}, ...options } = resolvePaths(
+    data,
+    CONFIG_SCHEMA,
+    path.dirname(absolutePath)
+  ) as ProjectConfig & { $schema?: string };
+
+  if (profile === undefined) {
+    return options;
+  }
+  if (!(profile in profiles)) {
+    const available = Object.keys(profiles).join(", ") || "(none)";
+    throw new Error(`Unknown profile "${profile}" in ${absolutePath}. Available profiles: ${available}`);
+  }
+  return mergeOptions(options, profiles[profile]);
+}
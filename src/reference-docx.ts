@@ -0,0 +1,178 @@
+import JSZip from "jszip";
+import type { ISectionPropertiesOptions } from "docx";
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+const STYLES_PART = "word/styles.xml";
+const DOCUMENT_PART = "word/document.xml";
+const THEME_PART = "word/theme/theme1.xml";
+const CONTENT_TYPES_PART = "[Content_Types].xml";
+const DOCUMENT_RELS_PART = "word/_rels/document.xml.rels";
+
+const THEME_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.theme+xml";
+const THEME_RELATIONSHIP_TYPE = "http://schemas.openxmlformats.org/officeDocument/2006/relationships/theme";
+
+export type PageSetup = NonNullable<ISectionPropertiesOptions["page"]>;
+
+/** A4 portrait width and the default 1 inch margins used by docx (unit: twips) */
+const DEFAULT_PAGE_WIDTH = 11906;
+const DEFAULT_MARGIN = 1440;
+
+/**
+ * Styles, theme and page setup extracted from a reference .docx
+ */
+export interface ReferenceDocx {
+  /** Absolute path of the reference document */
+  path: string;
+  /** Raw content of word/styles.xml */
+  styles: string;
+  /** Ids of all styles defined in the reference (e.g. "Heading1", "SourceCode") */
+  styleIds: Set<string>;
+  /** Raw content of word/theme/theme1.xml, if the reference has a theme */
+  theme?: string;
+  /** Page size and margins of the last section in the reference */
+  page?: PageSetup;
+}
+
+/**
+ * Read an attribute value from a single XML element string
+ */
+function readAttribute(element: string, name: string): string | undefined {
+  const match = element.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return match ? match[1] : undefined;
+}
+
+function readTwips(element: string, name: string): number | undefined {
+  const value = readAttribute(element, name);
+  if (value === undefined) return undefined;
+  const twips = parseInt(value, 10);
+  return isNaN(twips) ? undefined : twips;
+}
+
+/**
+ * Extract page size and margins from the body-level section properties
+ */
+function parsePageSetup(documentXml: string): PageSetup | undefined {
+  const sections = documentXml.match(/<w:sectPr\b[\s\S]*?<\/w:sectPr>/g);
+  if (!sections) return undefined;
+
+  // The body-level sectPr is the last one in the document
+  const sectPr = sections[sections.length - 1];
+  const pgSz = sectPr.match(/<w:pgSz\b[^>]*>/)?.[0];
+  const pgMar = sectPr.match(/<w:pgMar\b[^>]*>/)?.[0];
+
+  if (!pgSz && !pgMar) return undefined;
+
+  const page: { size?: PageSetup["size"]; margin?: PageSetup["margin"] } = {};
+
+  if (pgSz) {
+    const width = readTwips(pgSz, "w:w");
+    const height = readTwips(pgSz, "w:h");
+    const landscape = readAttribute(pgSz, "w:orient") === "landscape";
+    // docx swaps width and height for landscape pages, so hand them over portrait-oriented
+    page.size = landscape
+      ? { width: height, height: width, orientation: "landscape" }
+      : { width, height, orientation: "portrait" };
+  }
+
+  if (pgMar) {
+    page.margin = {
+      top: readTwips(pgMar, "w:top"),
+      right: readTwips(pgMar, "w:right"),
+      bottom: readTwips(pgMar, "w:bottom"),
+      left: readTwips(pgMar, "w:left"),
+      header: readTwips(pgMar, "w:header"),
+      footer: readTwips(pgMar, "w:footer"),
+      gutter: readTwips(pgMar, "w:gutter"),
+    };
+  }
+
+  return page;
+}
+
+function toTwips(value: number | string | undefined, fallback: number): number {
+  return typeof value === "number" ? value : fallback;
+}
+
+/**
+ * Width between the left and right margins (unit: twips)
+ */
+export function pageTextWidth(page?: PageSetup): number {
+  // Page sizes are kept portrait-oriented, see parsePageSetup()
+  const size = page?.size;
+  const pageWidth = toTwips(size?.orientation === "landscape" ? size?.height : size?.width, DEFAULT_PAGE_WIDTH);
+  const margin = page?.margin;
+  return pageWidth - toTwips(margin?.left, DEFAULT_MARGIN) - toTwips(margin?.right, DEFAULT_MARGIN);
+}
+
+/**
+ * Load styles, theme and page setup from a reference .docx file
+ */
+export async function loadReferenceDocx(filePath: string): Promise<ReferenceDocx> {
+  const absolutePath = path.resolve(filePath);
+
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`Reference document not found: ${absolutePath}`);
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(fs.readFileSync(absolutePath));
+  } catch {
+    throw new Error(`Reference document is not a valid .docx file: ${absolutePath}`);
+  }
+
+  const stylesFile = zip.file(STYLES_PART);
+  if (!stylesFile) {
+    throw new Error(`Reference document has no ${STYLES_PART}: ${absolutePath}`);
+  }
+
+  const styles = await stylesFile.async("string");
+  const styleIds = new Set<string>();
+  for (const match of styles.matchAll(/<w:style\b[^>]*\bw:styleId="([^"]+)"/g)) {
+    styleIds.add(match[1]);
+  }
+
+  const theme = await zip.file(THEME_PART)?.async("string");
+  const documentXml = await zip.file(DOCUMENT_PART)?.async("string");
+  const page = documentXml ? parsePageSetup(documentXml) : undefined;
+
+  return { path: absolutePath, styles, styleIds, theme, page };
+}
+
+/**
+ * Copy the reference theme into a generated .docx
+ * (docx does not write a theme part on its own)
+ */
+export async function applyReferenceTheme(buffer: Buffer, reference: ReferenceDocx): Promise<Buffer> {
+  if (!reference.theme) {
+    return buffer;
+  }
+
+  const zip = await JSZip.loadAsync(buffer);
+  zip.file(THEME_PART, reference.theme);
+
+  const contentTypes = await zip.file(CONTENT_TYPES_PART)?.async("string");
+  if (contentTypes && !contentTypes.includes(`PartName="/${THEME_PART}"`)) {
+    zip.file(
+      CONTENT_TYPES_PART,
+      contentTypes.replace(
+        "</Types>",
+        `<Override ContentType="${THEME_CONTENT_TYPE}" PartName="/${THEME_PART}"/></Types>`
+      )
+    );
+  }
+
+  const relationships = await zip.file(DOCUMENT_RELS_PART)?.async("string");
+  if (relationships && !relationships.includes(THEME_RELATIONSHIP_TYPE)) {
+    zip.file(
+      DOCUMENT_RELS_PART,
+      relationships.replace(
+        "</Relationships>",
+        `<Relationship Id="rIdTheme1" Type="${THEME_RELATIONSHIP_TYPE}" Target="theme/theme1.xml"/></Relationships>`
+      )
+    );
+  }
+
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
@@ -0,0 +1,166 @@
+import * as path from "node:path";
+
+/**
+ * Shape of the options in a config or manifest file
+ */
+export type Schema =
+  | { kind: "string" | "number" | "boolean" | "any" }
+  /** A string that is resolved against the file's directory, optionally only when it matches `when` */
+  | { kind: "path"; when?: RegExp }
+  | { kind: "enum"; values: readonly (string | boolean)[] }
+  | { kind: "array"; items: Schema }
+  | { kind: "record"; values: Schema }
+  | { kind: "object"; properties: Record<string, Schema> }
+  | { kind: "either"; options: Schema[] };
+
+export const string: Schema = { kind: "string" };
+export const number: Schema = { kind: "number" };
+export const boolean: Schema = { kind: "boolean" };
+export const anyObject: Schema = { kind: "any" };
+export const filePath: Schema = { kind: "path" };
+export const filePathIf = (when: RegExp): Schema => ({ kind: "path", when });
+export const oneOf = (...values: (string | boolean)[]): Schema => ({ kind: "enum", values });
+export const arrayOf = (items: Schema): Schema => ({ kind: "array", items });
+export const recordOf = (values: Schema): Schema => ({ kind: "record", values });
+export const object = (properties: Record<string, Schema>): Schema => ({ kind: "object", properties });
+export const either = (...options: Schema[]): Schema => ({ kind: "either", options });
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Object.prototype.toString.call(value) === "[object Object]";
+}
+
+function describe(schema: Schema): string {
+  switch (schema.kind) {
+    case "string":
+    case "path":
+      return "a string";
+    case "number":
+      return "a number";
+    case "boolean":
+      return "true or false";
+    case "enum":
+      return `one of: ${schema.values.join(", ")}`;
+    case "array":
+      return "a list";
+    case "record":
+    case "object":
+    case "any":
+      return "an object";
+    case "either":
+      return schema.options.map(describe).join(" or ");
+  }
+}
+
+function check(value: unknown, schema: Schema, key: string): string[] {
+  const errors: string[] = [];
+  validate(value, schema, key, errors);
+  return errors;
+}
+
+/**
+ * The object option of an `either` schema that fits an object value best
+ */
+function closestObject(value: Record<string, unknown>, options: Schema[]): Schema | undefined {
+  const candidates = options.filter((option) => option.kind === "object");
+  return candidates
+    .map((option) => ({ option, errors: check(value, option, "").length }))
+    .sort((a, b) => a.errors - b.errors)[0]?.option;
+}
+
+/**
+ * Check a value against a schema and collect messages such as `tables.borders: expected one of: ...`
+ */
+export function validate(value: unknown, schema: Schema, key: string, errors: string[]): void {
+  const fail = () => errors.push(`${key || "(root)"}: expected ${describe(schema)}, got ${JSON.stringify(value)}`);
+
+  switch (schema.kind) {
+    case "string":
+    case "path":
+      if (typeof value !== "string") fail();
+      break;
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) fail();
+      break;
+    case "boolean":
+      if (typeof value !== "boolean") fail();
+      break;
+    case "any":
+      if (!isPlainObject(value)) fail();
+      break;
+    case "enum":
+      if (!schema.values.includes(value as string | boolean)) fail();
+      break;
+    case "array":
+      if (!Array.isArray(value)) {
+        fail();
+      } else {
+        value.forEach((item, index) => validate(item, schema.items, `${key}[${index}]`, errors));
+      }
+      break;
+    case "record":
+      if (!isPlainObject(value)) {
+        fail();
+      } else {
+        for (const [name, item] of Object.entries(value)) {
+          validate(item, schema.values, `${key}.${name}`, errors);
+        }
+      }
+      break;
+    case "object":
+      if (!isPlainObject(value)) {
+        fail();
+      } else {
+        for (const [name, item] of Object.entries(value)) {
+          const property = schema.properties[name];
+          const itemKey = key ? `${key}.${name}` : name;
+          if (!property) {
+            errors.push(`${itemKey}: unknown option`);
+          } else if (item !== undefined && item !== null) {
+            validate(item, property, itemKey, errors);
+          }
+        }
+      }
+      break;
+    case "either": {
+      if (schema.options.some((option) => check(value, option, key).length === 0)) break;
+      // Objects are reported by the closest object option, so the message names the wrong field
+      const nested = isPlainObject(value) ? closestObject(value, schema.options) : undefined;
+      if (nested) {
+        validate(value, nested, key, errors);
+      } else {
+        fail();
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Make path values of a validated value absolute, relative to `baseDir`
+ */
+export function resolvePaths(value: unknown, schema: Schema, baseDir: string): unknown {
+  if (value === undefined || value === null) return undefined;
+  switch (schema.kind) {
+    case "path":
+      return !schema.when || schema.when.test(value as string) ? path.resolve(baseDir, value as string) : value;
+    case "array":
+      return (value as unknown[]).map((item) => resolvePaths(item, schema.items, baseDir));
+    case "record":
+      return Object.fromEntries(
+        Object.entries(value as object).map(([name, item]) => [name, resolvePaths(item, schema.values, baseDir)])
+      );
+    case "object":
+      return Object.fromEntries(
+        Object.entries(value as object).map(([name, item]) => [
+          name,
+          resolvePaths(item, schema.properties[name], baseDir),
+        ])
+      );
+    case "either": {
+      const option = schema.options.find((candidate) => check(value, candidate, "").length === 0);
+      return option ? resolvePaths(value, option, baseDir) : value;
+    }
+    default:
+      return value;
+  }
+}
@@ -0,0 +1,46 @@
+import type { IPlugin } from "@m2d/core";
+import type { Parent, Root } from "mdast";
+
+/**
+ * Named paragraph/table styles used for Markdown elements
+ * (style ids as defined in the reference document, e.g. "BodyText")
+ */
+export interface StyleMap {
+  /** Paragraph style for body text */
+  paragraph?: string;
+  /** Paragraph style for text inside block quotes */
+  blockquote?: string;
+  /** Paragraph style for fenced and indented code blocks */
+  code?: string;
+  /** Table style for GFM tables */
+  table?: string;
+  /** Paragraph style for figure captions */
+  caption?: string;
+}
+
+/**
+ * Apply paragraph styles from a style map to body text and block quotes
+ */
+export function stylePlugin(styleMap: StyleMap = {}): IPlugin {
+  const visit = (node: Parent | Root, inBlockquote: boolean): void => {
+    for (const child of node.children) {
+      if (child.type === "paragraph") {
+        const style = inBlockquote ? styleMap.blockquote ?? styleMap.paragraph : styleMap.paragraph;
+        if (style) {
+          child.data = { ...child.data, style } as typeof child.data;
+        }
+      } else if (child.type === "blockquote") {
+        visit(child, true);
+      }
+      // Lists and tables keep their own formatting
+    }
+  };
+
+  return {
+    preprocess(tree) {
+      if (styleMap.paragraph || styleMap.blockquote) {
+        visit(tree as Root, false);
+      }
+    },
+  };
+}
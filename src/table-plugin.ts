@@ -0,0 +1,262 @@
+import type { IPlugin, Parent, PhrasingContent, Root, RootContent, Table } from "@m2d/core";
+import { getTextContent } from "@m2d/core/utils";
+import { captionParagraph } from "./figure-plugin.js";
+import { pageTextWidth } from "./reference-docx.js";
+
+/** Caption line directly above a table, as in Pandoc */
+const CAPTION = /^Table:\s*(\S[\s\S]*)$/;
+
+/** Node types that are rendered as their own paragraph inside a cell, as in @m2d/table */
+const BLOCK_TYPES = ["paragraph", "heading", "code", "list", "blockquote", "thematicBreak", "fragment", "table"];
+
+/**
+ * Border presets:
+ * - "all": grid lines around every cell
+ * - "horizontal": lines above and below the table and between rows
+ * - "outer": a box around the table only
+ * - "none": no borders
+ */
+export type TableBorders = "all" | "horizontal" | "outer" | "none";
+
+/**
+ * Column width modes:
+ * - "auto": let Word fit the columns
+ * - "content": follow the length of the column text; right- and center-aligned
+ *   columns (usually numbers) are kept narrow
+ * - "equal": all columns get the same width
+ */
+export type TableColumnWidths = "auto" | "content" | "equal";
+
+export interface TableOptions {
+  /**
+   * Number tables that are preceded by a `Table: ...` line
+   * @default true
+   */
+  captions?: boolean;
+
+  /**
+   * Caption label, also used as the SEQ field identifier
+   * @default "Table"
+   */
+  label?: string;
+
+  /**
+   * Header row background color (hex), or `false` for none
+   * @default "B79C2F"
+   */
+  headerFill?: string | false;
+
+  /**
+   * Shade every other body row; `true` uses a light gray, a string sets the color (hex)
+   * @default false
+   */
+  bandedRows?: boolean | string;
+
+  /** @default "all" */
+  borders?: TableBorders;
+
+  /**
+   * Border color (hex)
+   * @default "auto"
+   */
+  borderColor?: string;
+
+  /** @default "auto" */
+  columnWidths?: TableColumnWidths;
+
+  /**
+   * Repeat the header row at the top of each page
+   * @default true
+   */
+  repeatHeader?: boolean;
+}
+
+interface TablePluginOptions extends TableOptions {
+  /** Table style id */
+  style?: string;
+  /** Paragraph style for captions */
+  captionStyle?: string;
+  /** Width between the page margins (unit: twips) */
+  textWidth?: number;
+}
+
+interface TableCaptionNode {
+  type: "tableCaption";
+  number: number;
+  text: string;
+  bookmark: string;
+}
+
+const BANDED_FILL = "F2F2F2";
+
+function borderSet(preset: TableBorders, color: string) {
+  const line = { style: "single", size: 1, color } as const;
+  const none = { style: "none", size: 0, color: "auto" } as const;
+  const outer = preset === "none" ? none : line;
+  const sides = preset === "all" || preset === "outer" ? outer : none;
+  return {
+    top: outer,
+    bottom: outer,
+    left: sides,
+    right: sides,
+    insideHorizontal: preset === "all" || preset === "horizontal" ? line : none,
+    insideVertical: preset === "all" ? line : none,
+  };
+}
+
+/**
+ * Relative column widths for the "content" and "equal" modes
+ */
+function columnWeights(table: Table, mode: TableColumnWidths): number[] {
+  const columns = Math.max(0, ...table.children.map((row) => row.children.length));
+  if (mode === "equal") {
+    return Array<number>(columns).fill(1);
+  }
+  return Array.from({ length: columns }, (_, column) => {
+    const length = Math.max(
+      0,
+      ...table.children.map((row) => {
+        const cell = row.children[column];
+        return cell ? getTextContent(cell as unknown as RootContent).length : 0;
+      })
+    );
+    const aligned = table.align?.[column] === "right" || table.align?.[column] === "center";
+    return Math.min(Math.max(length, 3), aligned ? 15 : 60);
+  });
+}
+
+/**
+ * Table plugin.
+ * Renders GFM tables with a shaded, repeating header row, optional banded rows, border presets
+ * and column widths, and numbers tables that have a `Table: ...` caption line.
+ */
+export function tablePlugin(options: TablePluginOptions = {}): IPlugin {
+  const {
+    captions = true,
+    label = "Table",
+    headerFill = "B79C2F",
+    bandedRows = false,
+    borders = "all",
+    borderColor = "auto",
+    columnWidths = "auto",
+    repeatHeader = true,
+    style,
+    captionStyle,
+    textWidth = pageTextWidth(),
+  } = options;
+  // SEQ identifiers cannot contain spaces
+  const identifier = label.trim().replace(/\s+/g, "_") || "Table";
+  const bandFill = bandedRows === true ? BANDED_FILL : bandedRows || undefined;
+
+  const captioned = new WeakSet<object>();
+
+  const addCaptions = (parent: Parent) => {
+    let count = 0;
+    const visit = (node: Parent) => {
+      const children = node.children as (RootContent | TableCaptionNode)[];
+      for (let index = 0; index < children.length; index++) {
+        const child = children[index];
+        const next = children[index + 1];
+        if (child.type === "paragraph" && next?.type === "table") {
+          const text = getTextContent(child).trim().match(CAPTION)?.[1].trim();
+          if (!text) continue;
+          count++;
+          children[index] = { type: "tableCaption", number: count, text, bookmark: `_Table${count}` };
+        } else if (child.type === "blockquote") {
+          visit(child);
+        }
+      }
+    };
+    visit(parent);
+  };
+
+  return {
+    preprocess(tree) {
+      // Plugins may run more than once per document
+      if (captions && !captioned.has(tree)) {
+        captioned.add(tree);
+        addCaptions(tree as Root);
+      }
+    },
+
+    block(docx, node, paraProps, blockChildrenProcessor) {
+      const type = (node as { type: string }).type;
+
+      if (type === "tableCaption") {
+        const caption = node as unknown as TableCaptionNode;
+        // Mark node as processed to avoid duplicate processing
+        (node as { type: string }).type = "";
+        // Captions sit above the table, so keep them on the same page
+        return [captionParagraph({ ...caption, label, identifier }, captionStyle, true)];
+      }
+
+      if (node.type !== "table") return [];
+
+      const alignments = node.align?.map((align) =>
+        align ? docx.AlignmentType[align.toUpperCase() as "LEFT" | "CENTER" | "RIGHT"] : undefined
+      );
+      const weights = columnWidths === "auto" ? undefined : columnWeights(node, columnWidths);
+      const total = weights?.reduce((sum, weight) => sum + weight, 0) ?? 0;
+      const widths = weights?.map((weight) => Math.floor((textWidth * weight) / total));
+
+      const rows = node.children.map((row, rowIndex) => {
+        const header = rowIndex === 0;
+        // Banding shades the second, fourth, ... body row
+        const fill = header ? headerFill || undefined : rowIndex % 2 === 0 ? bandFill : undefined;
+
+        return new docx.TableRow({
+          tableHeader: header && repeatHeader ? true : undefined,
+          children: row.children.map((cell, column) => {
+            // Cells hold phrasing content, which is wrapped in a paragraph unless it is a block
+            const children: RootContent[] = [];
+            let inline: PhrasingContent[] = [];
+            for (const child of cell.children as RootContent[]) {
+              if (BLOCK_TYPES.includes(child.type)) {
+                if (inline.length > 0) children.push({ type: "paragraph", children: inline });
+                inline = [];
+                children.push(child);
+              } else {
+                inline.push(child as PhrasingContent);
+              }
+            }
+            if (inline.length > 0 || children.length === 0) children.push({ type: "paragraph", children: inline });
+            (cell as unknown as Parent).children = children;
+
+            return new docx.TableCell({
+              verticalAlign: docx.VerticalAlignTable.CENTER,
+              width: widths ? { size: widths[column] ?? 0, type: docx.WidthType.DXA } : undefined,
+              shading: fill ? { type: docx.ShadingType.CLEAR, color: "auto", fill } : undefined,
+              children: blockChildrenProcessor(
+                cell as unknown as Parent,
+                // Paragraph props are passed on to the text runs, which makes the header bold
+                header
+                  ? ({ alignment: docx.AlignmentType.CENTER, bold: true } as typeof paraProps)
+                  : { alignment: alignments?.[column] }
+              ),
+            });
+          }),
+        });
+      });
+
+      // Mark node as processed to avoid duplicate processing
+      (node as { type: string }).type = "";
+
+      return [
+        new docx.Table({
+          style,
+          width: { size: 100, type: docx.WidthType.PERCENTAGE },
+          columnWidths: widths,
+          layout: widths ? docx.TableLayoutType.FIXED : undefined,
+          margins: {
+            top: docx.convertMillimetersToTwip(2),
+            right: docx.convertMillimetersToTwip(4),
+            bottom: docx.convertMillimetersToTwip(2),
+            left: docx.convertMillimetersToTwip(4),
+          },
+          borders: borderSet(borders, borderColor),
+          rows,
+        }),
+      ];
+    },
+  };
+}
@@ -0,0 +1,155 @@
+import type { IPlugin } from "@m2d/core";
+import { docx } from "@m2d/core/section";
+import { formatValue } from "./frontmatter.js";
+
+type Alignment = "left" | "center" | "right";
+
+export interface TitlePageField {
+  /** Front matter key whose value is rendered */
+  key: string;
+  /** Text placed before the value, e.g. "Version " */
+  prefix?: string;
+  /**
+   * Font size (unit: half-points, 48 = 24pt)
+   * @default 24
+   */
+  size?: number;
+  bold?: boolean;
+  italics?: boolean;
+  /** Text color in hex, e.g. "C00000" */
+  color?: string;
+  /**
+   * Space before the line (unit: twips)
+   * @default 120
+   */
+  spacingBefore?: number;
+  /**
+   * @default "center"
+   */
+  alignment?: Alignment;
+}
+
+export interface TitlePageOptions {
+  /**
+   * Lines rendered on the cover page, top to bottom.
+   * Fields without a value in front matter are skipped.
+   * @default title, subtitle, version, author, date, classification
+   */
+  layout?: TitlePageField[];
+
+  /**
+   * Logo image path (relative to the working directory) or URL, shown above the first line.
+   * Falls back to the `logo` front matter key, which is relative to its Markdown file.
+   */
+  logo?: string;
+
+  /**
+   * Maximum logo width (unit: inches)
+   * @default 2.5
+   */
+  logoWidth?: number;
+
+  /**
+   * Vertically center the cover page content
+   * @default true
+   */
+  verticallyCentered?: boolean;
+}
+
+export const DEFAULT_TITLE_PAGE_LAYOUT: TitlePageField[] = [
+  { key: "title", size: 56, bold: true, spacingBefore: 480 },
+  { key: "subtitle", size: 32, color: "595959" },
+  { key: "version", prefix: "Version ", spacingBefore: 720 },
+  { key: "author" },
+  { key: "date" },
+  { key: "classification", bold: true, color: "C00000", spacingBefore: 720 },
+];
+
+interface ResolvedImage {
+  type: "png" | "jpg" | "gif" | "bmp";
+  data: ArrayBuffer;
+  transformation: { width: number; height: number };
+}
+
+interface TitlePagePluginOptions extends TitlePageOptions {
+  /** Front matter data providing the field values */
+  data: Record<string, unknown>;
+  /** Resolves the logo into image data */
+  resolveImage: (src: string, maxWidth: number) => Promise<ResolvedImage>;
+}
+
+/**
+ * Title page plugin.
+ * Renders a cover page from front matter fields as a separate first section.
+ */
+export function titlePagePlugin(options: TitlePagePluginOptions): IPlugin {
+  const {
+    data,
+    resolveImage,
+    layout = DEFAULT_TITLE_PAGE_LAYOUT,
+    logoWidth = 2.5,
+    verticallyCentered = true,
+  } = options;
+
+  const logo = options.logo ?? formatValue(data.logo);
+  let logoImage: ResolvedImage | undefined;
+  let inserted = false;
+
+  return {
+    async preprocess() {
+      if (logo && !logoImage) {
+        logoImage = await resolveImage(logo, logoWidth);
+      }
+    },
+
+    postprocess(sections) {
+      // Plugins may run more than once per document
+      if (inserted) return;
+      inserted = true;
+
+      const children: InstanceType<typeof docx.Paragraph>[] = [];
+
+      if (logoImage) {
+        children.push(
+          new docx.Paragraph({
+            alignment: "center",
+            spacing: { after: 240 },
+            children: [new docx.ImageRun(logoImage)],
+          })
+        );
+      }
+
+      for (const field of layout) {
+        const value = formatValue(data[field.key]);
+        if (!value) continue;
+
+        children.push(
+          new docx.Paragraph({
+            alignment: field.alignment ?? "center",
+            spacing: { before: field.spacingBefore ?? 120 },
+            children: [
+              new docx.TextRun({
+                text: `${field.prefix ?? ""}${value}`,
+                size: field.size ?? 24,
+                bold: field.bold,
+                italics: field.italics,
+                color: field.color,
+              }),
+            ],
+          })
+        );
+      }
+
+      if (children.length === 0) return;
+
+      // A separate section gives the cover its own page and no header/footer
+      sections.unshift({
+        properties: {
+          page: sections[0]?.properties?.page,
+          verticalAlign: verticallyCentered ? "center" : undefined,
+        },
+        children,
+      });
+    },
+  };
+}
@@ -0,0 +1,177 @@
+import type { IPlugin, RootContent } from "@m2d/core";
+import { getTextContent } from "@m2d/core/utils";
+import { headingBookmarkId } from "./cross-links.js";
+
+/** Marker paragraph that positions the table of contents */
+const TOC_MARKER = /^\s*\[\[toc\]\]\s*$/i;
+
+export interface TocPluginOptions {
+  /**
+   * Deepest Markdown heading level included in the table of contents
+   * @default 3
+   */
+  depth?: number;
+
+  /**
+   * Title shown above the table of contents (empty string for none)
+   * @default "Table of Contents"
+   */
+  title?: string;
+
+  /**
+   * Whether H1 is rendered with the Title style (must match the section's `useTitle`)
+   * @default true
+   */
+  useTitle?: boolean;
+}
+
+interface TocEntry {
+  text: string;
+  level: number;
+  bookmark: string;
+}
+
+interface TocNode {
+  type: "toc";
+}
+
+/**
+ * Pre-filled entry of a TOC field
+ */
+export interface FieldEntry {
+  text: string;
+  /** Paragraph style of the entry, e.g. "TOC1" */
+  style: string;
+  bookmark: string;
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Build the TOC field instruction, mapping heading styles to TOC levels
+ */
+function buildInstruction(depth: number, useTitle: boolean): string {
+  if (!useTitle) {
+    return `TOC \\o "1-${depth}" \\h \\z \\u`;
+  }
+  const styles = ["Title,1"];
+  for (let level = 2; level <= depth; level++) {
+    styles.push(`Heading${level - 1},${level}`);
+  }
+  return `TOC \\t "${styles.join(",")}" \\h \\z`;
+}
+
+/**
+ * Build the paragraphs of a TOC field pre-populated with hyperlinked entries.
+ * The field is marked dirty so Word refreshes entries and page numbers on open.
+ */
+export function buildFieldXml(entries: FieldEntry[], instruction: string): string {
+  const entryParagraphs = entries.map(
+    (entry) =>
+      `<w:p><w:pPr><w:pStyle w:val="${escapeXml(entry.style)}"/></w:pPr>` +
+      `<w:hyperlink w:anchor="${escapeXml(entry.bookmark)}" w:history="1">` +
+      `<w:r><w:t xml:space="preserve">${escapeXml(entry.text)}</w:t></w:r>` +
+      `</w:hyperlink></w:p>`
+  );
+
+  return (
+    `<w:p><w:r><w:fldChar w:fldCharType="begin" w:dirty="true"/></w:r>` +
+    `<w:r><w:instrText xml:space="preserve"> ${escapeXml(instruction)} </w:instrText></w:r>` +
+    `<w:r><w:fldChar w:fldCharType="separate"/></w:r></w:p>` +
+    entryParagraphs.join("") +
+    `<w:p><w:r><w:fldChar w:fldCharType="end"/></w:r></w:p>`
+  );
+}
+
+function buildTocXml(entries: TocEntry[], instruction: string): string {
+  const fieldEntries = entries.map(({ text, level, bookmark }) => ({ text, style: `TOC${level}`, bookmark }));
+  return (
+    `<w:sdt><w:sdtPr><w:docPartObj><w:docPartGallery w:val="Table of Contents"/><w:docPartUnique/></w:docPartObj></w:sdtPr>` +
+    `<w:sdtContent>${buildFieldXml(fieldEntries, instruction)}</w:sdtContent></w:sdt>`
+  );
+}
+
+/**
+ * Table of contents plugin.
+ * Inserts a Word TOC field at a `[[toc]]` marker, or at the start of the document.
+ */
+export function tocPlugin(options: TocPluginOptions = {}): IPlugin {
+  const { depth = 3, title = "Table of Contents", useTitle = true } = options;
+
+  let entries: TocEntry[] = [];
+
+  return {
+    root(props) {
+      props.features = { ...props.features, updateFields: true };
+    },
+
+    preprocess(tree) {
+      const children = tree.children as (RootContent | TocNode)[];
+
+      const markers = children.filter(
+        (node) => node.type === "paragraph" && TOC_MARKER.test(getTextContent(node))
+      );
+
+      if (!children.some((node) => node.type === "toc")) {
+        const marker = markers.shift();
+        if (marker) {
+          children.splice(children.indexOf(marker), 1, { type: "toc" });
+        } else {
+          // Place after front matter
+          const index = children.findIndex((node) => node.type !== "yaml");
+          children.splice(index === -1 ? children.length : index, 0, { type: "toc" });
+        }
+      }
+
+      // Only the first marker is used (e.g. when every merged file has one)
+      for (const marker of markers) {
+        children.splice(children.indexOf(marker), 1);
+      }
+
+      entries = [];
+      for (const node of children) {
+        if (node.type === "heading" && node.depth <= depth) {
+          entries.push({
+            text: getTextContent(node),
+            level: node.depth,
+            bookmark: headingBookmarkId(node),
+          });
+        }
+      }
+    },
+
+    block(docx, node) {
+      if ((node as { type: string }).type !== "toc") {
+        return [];
+      }
+
+      const blocks: ReturnType<NonNullable<IPlugin["block"]>> = [];
+      if (title) {
+        blocks.push(
+          new docx.Paragraph({
+            style: "TOCHeading",
+            spacing: { after: 120 },
+            children: [new docx.TextRun({ text: title, bold: true, size: 32 })],
+          })
+        );
+      }
+
+      // fromXmlString wraps the parsed element in an unnamed root component
+      const wrapper = docx.ImportedXmlComponent.fromXmlString(
+        buildTocXml(entries, buildInstruction(depth, useTitle))
+      );
+      blocks.push((wrapper as unknown as { root: (typeof blocks)[number][] }).root[0]);
+
+      // Mark node as processed to avoid duplicate processing
+      (node as { type: string }).type = "";
+
+      return blocks;
+    },
+  };
+}
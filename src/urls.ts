@@ -0,0 +1,7 @@
+/**
+ * Whether a URL has a scheme (http:, data:, file: ...) rather than being a file path
+ */
+export function hasUrlScheme(url: string): boolean {
+  // At least two characters, so Windows drive letters are treated as paths
+  return /^[a-z][a-z\d+.-]+:/i.test(url);
+}
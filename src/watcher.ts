@@ -0,0 +1,211 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import { visit } from "unist-util-visit";
+import { MANIFEST_FILES, resolveBook, type BookOptions } from "./manifest.js";
+import { hasUrlScheme } from "./urls.js";
+
+export interface WatchOptions extends Pick<BookOptions, "manifest" | "recursive" | "include" | "exclude"> {
+  /** Other files the build reads, e.g. a reference document or Mermaid config */
+  extraFiles?: string[];
+
+  /**
+   * Wait this long after the last change before rebuilding (unit: ms)
+   * @default 300
+   */
+  debounce?: number;
+
+  /** Called with the changed file before each rebuild */
+  onChange?: (file: string) => void;
+}
+
+const parser = unified().use(remarkParse).use(remarkGfm);
+
+/**
+ * Markdown files of the input: the file itself, or the chapters of a directory and its manifest
+ */
+function markdownFiles(inputPath: string, options: BookOptions): string[] {
+  if (!fs.statSync(inputPath).isDirectory()) {
+    return [inputPath];
+  }
+  const { manifest, entries } = resolveBook(inputPath, options);
+  const chapters = entries.flatMap((entry) => (entry.type === "chapter" ? [entry.file] : []));
+  return manifest ? [manifest, ...chapters] : chapters;
+}
+
+/**
+ * Whether a folder is searched by recursive merging, which skips hidden folders and node_modules
+ */
+function isChapterFolder(dir: string): boolean {
+  const name = path.basename(dir);
+  if (name.startsWith(".") || name === "node_modules") return false;
+  try {
+    return fs.statSync(dir).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Subfolders of a directory at any depth that recursive merging searches
+ */
+function subfolders(dir: string): string[] {
+  let names: string[];
+  try {
+    names = fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+  return names
+    .map((name) => path.join(dir, name))
+    .filter(isChapterFolder)
+    .flatMap((folder) => [folder, ...subfolders(folder)]);
+}
+
+/**
+ * Local images referenced by a Markdown file, inline or through a definition
+ */
+function referencedImages(markdownFile: string): string[] {
+  const baseDir = path.dirname(markdownFile);
+  const images: string[] = [];
+  const addImage = (url: string) => {
+    // Remote and data URLs are not files
+    if (hasUrlScheme(url)) return;
+    try {
+      images.push(path.resolve(baseDir, decodeURI(url.split(/[?#]/)[0])));
+    } catch {
+      // Malformed escapes cannot name a file
+    }
+  };
+
+  const tree = parser.parse(fs.readFileSync(markdownFile, "utf-8"));
+  visit(tree, (node) => {
+    if (node.type === "image" || node.type === "definition") {
+      addImage(node.url);
+    }
+  });
+  return images;
+}
+
+/**
+ * Files a build of the input depends on: Markdown files and the local images they reference
+ */
+export function watchedFiles(inputPath: string, options: BookOptions = {}): string[] {
+  const files = markdownFiles(path.resolve(inputPath), options);
+  return [...new Set([...files, ...files.flatMap(referencedImages)])];
+}
+
+/**
+ * Run a build, then run it again whenever the input or a file it references changes.
+ * Changes during a build trigger one more build once it is done. Build errors are left to `build` to report.
+ * @returns a function that stops watching
+ */
+export function watch(inputPath: string, build: () => Promise<void>, options: WatchOptions = {}): () => void {
+  const { extraFiles = [], debounce = 300, onChange, ...bookOptions } = options;
+  const input = path.resolve(inputPath);
+  const isDirectory = fs.statSync(input).isDirectory();
+
+  // Directories are watched rather than files, since editors often save by replacing the file
+  const watchers = new Map<string, fs.FSWatcher>();
+  let files = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let building = false;
+  let pending: string | undefined;
+  let stopped = false;
+
+  const schedule = (file: string) => {
+    if (building) {
+      pending = file;
+      return;
+    }
+    clearTimeout(timer);
+    timer = setTimeout(() => start(file), debounce);
+  };
+
+  const update = () => {
+    try {
+      files = new Set([...watchedFiles(input, bookOptions), ...extraFiles.map((file) => path.resolve(file))]);
+    } catch {
+      // The input may be mid-save; keep the previous file list
+    }
+    const dirs = new Set([...files].map((file) => path.dirname(file)));
+    if (isDirectory) dirs.add(input);
+    // Empty folders too, so Markdown files added to them later are seen
+    if (isDirectory && bookOptions.recursive) {
+      for (const dir of subfolders(input)) dirs.add(dir);
+    }
+
+    for (const [dir, watcher] of watchers) {
+      if (!dirs.has(dir)) {
+        watcher.close();
+        watchers.delete(dir);
+      }
+    }
+    for (const dir of dirs) {
+      if (watchers.has(dir) || !fs.existsSync(dir)) continue;
+      let watcher: fs.FSWatcher;
+      try {
+        watcher = fs.watch(dir, (_event, filename) => {
+          if (!filename) return;
+          const file = path.join(dir, filename.toString());
+          // New Markdown files and manifests in the input directory (or its subfolders) are part of the next build
+          const added = file.endsWith(".md") || MANIFEST_FILES.includes(path.basename(file));
+          const inInput = dir === input || (bookOptions.recursive && dir.startsWith(input + path.sep));
+          if (files.has(file) || (inInput && added)) {
+            schedule(file);
+          } else if (inInput && bookOptions.recursive && isChapterFolder(file)) {
+            // A new folder is watched at once and may already hold Markdown files, e.g. when moved in
+            update();
+            schedule(file);
+          }
+        });
+      } catch {
+        // Removed since it was listed; the next update watches it if it comes back
+        continue;
+      }
+      // A removed directory is watched again if it comes back
+      watcher.on("error", () => {
+        watcher.close();
+        watchers.delete(dir);
+      });
+      watchers.set(dir, watcher);
+    }
+  };
+
+  const run = async (file?: string) => {
+    if (stopped) return;
+    if (file) onChange?.(file);
+    building = true;
+    try {
+      await build();
+    } catch {
+      // Reported by `build`; the files are still watched for a fix
+    } finally {
+      building = false;
+    }
+    if (stopped) return;
+    // Images may have been added or removed
+    update();
+    if (pending) {
+      const next = pending;
+      pending = undefined;
+      schedule(next);
+    }
+  };
+
+  // A failed update must not end the process
+  const start = (file?: string) => void run(file).catch(() => undefined);
+
+  start();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+    for (const watcher of watchers.values()) {
+      watcher.close();
+    }
+    watchers.clear();
+  };
+}
@@ -1,7 +1,98 @@
-import { describe, it, expect, beforeEach } from "vitest";
-import { MdToDocxConverter } from "../src/converter.js";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { MdToDocxConverter, optionFiles, type ConversionWarning } from "../src/converter.js";
+import { MermaidCache } from "../src/mermaid-cache.js";
+import { containsMermaid } from "../src/mermaid-blocks.js";
+import { resolveRenderSettings } from "../src/mermaid-options.js";
+import { watch, watchedFiles } from "../src/watcher.js";
+import { findProjectConfig, loadProjectConfig, mergeOptions } from "../src/project-config.js";
+import { resolveBook } from "../src/manifest.js";
+import { convertBatch } from "../src/batch.js";
 import * as fs from "node:fs";
 import * as path from "node:path";
+import JSZip from "jszip";
+import sharp from "sharp";
+
+// Stands in for the browser while enabled, so the renderer's pool can be checked without Chrome
+const mermaidStub = vi.hoisted(() => {
+  const stub = {
+    enabled: false,
+    launches: 0,
+    closes: 0,
+    active: 0,
+    maxActive: 0,
+    /** Thrown by the browser's close(), as by a browser that crashed */
+    closeError: undefined as Error | undefined,
+    browser: {
+      close: async () => {
+        stub.closes++;
+        if (stub.closeError) throw stub.closeError;
+      },
+    },
+    async render(
+      code: string,
+      format: string,
+      config: { htmlLabels?: boolean; flowchart?: { htmlLabels?: boolean } }
+    ) {
+      stub.active++;
+      stub.maxActive = Math.max(stub.maxActive, stub.active);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      stub.active--;
+      // Mermaid writes labels as HTML unless htmlLabels is turned off
+      const htmlLabels = (config.flowchart?.htmlLabels ?? config.htmlLabels) !== false;
+      const label = htmlLabels ? "<foreignObject><div>A</div></foreignObject>" : "<text>A</text>";
+      const { default: sharp } = await import("sharp");
+      // A color per diagram, so the document does not share one image between them
+      const red = [...code].reduce((sum, char) => sum + char.charCodeAt(0), 0) % 256;
+      const data =
+        format === "svg"
+          ? Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="40" height="20">${label}</svg>`)
+          : await sharp({ create: { width: 40, height: 20, channels: 3, background: { r: red, g: 0, b: 0 } } })
+              .png()
+              .toBuffer();
+      return { data: new Uint8Array(data) };
+    },
+  };
+  return stub;
+});
+
+// The real modules are only loaded while the stub is off
+vi.mock("puppeteer", () => ({
+  default: {
+    launch: async (options: import("puppeteer").LaunchOptions) => {
+      if (!mermaidStub.enabled) {
+        const { default: puppeteer } = await vi.importActual<typeof import("puppeteer")>("puppeteer");
+        return puppeteer.launch(options);
+      }
+      mermaidStub.launches++;
+      return mermaidStub.browser;
+    },
+  },
+}));
+
+vi.mock("@mermaid-js/mermaid-cli", () => ({
+  renderMermaid: async (...args: Parameters<typeof import("@mermaid-js/mermaid-cli").renderMermaid>) => {
+    const [, code, format, settings] = args;
+    if (!mermaidStub.enabled) {
+      const { renderMermaid } = await vi.importActual<typeof import("@mermaid-js/mermaid-cli")>(
+        "@mermaid-js/mermaid-cli"
+      );
+      return renderMermaid(...args);
+    }
+    return mermaidStub.render(code, format, (settings?.mermaidConfig ?? {}) as { htmlLabels?: boolean });
+  },
+}));
+
+async function readDocxPart(buffer: Buffer, part: string): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  return (await zip.file(part)?.async("string")) ?? "";
+}
+
+async function mediaFiles(buffer: Buffer): Promise<string[]> {
+  const zip = await JSZip.loadAsync(buffer);
+  return Object.values(zip.files)
+    .filter((file) => !file.dir && file.name.startsWith("word/media/"))
+    .map((file) => file.name);
+}
 
 describe("MdToDocxConverter", () => {
   let converter: MdToDocxConverter;
@@ -72,6 +163,21 @@ console.log(x);
   });
 
   describe("convertWithMermaid", () => {
+    const cacheDir = path.join(process.cwd(), "tests", "fixtures", "mermaid-stub-cache");
+
+    beforeEach(() => {
+      Object.assign(mermaidStub, { enabled: true, launches: 0, closes: 0, active: 0, maxActive: 0 });
+      mermaidStub.closeError = undefined;
+      // Stub images stay out of the shared diagram cache
+      converter = new MdToDocxConverter({ cache: { dir: cacheDir } });
+    });
+
+    afterEach(async () => {
+      await converter.close();
+      mermaidStub.enabled = false;
+      fs.rmSync(cacheDir, { recursive: true, force: true });
+    });
+
     it("should convert markdown with mermaid diagram to docx", async () => {
       const markdown = `
 # Flowchart Example
@@ -85,8 +191,8 @@ flowchart TD
 `;
       const result = await converter.convert(markdown, { enableMermaid: true });
 
-      expect(result).toBeInstanceOf(Buffer);
-      expect(result.length).toBeGreaterThan(0);
+      expect(await mediaFiles(result)).toHaveLength(1);
+      expect(await readDocxPart(result, "word/document.xml")).toContain("<pic:pic");
     });
 
     it("should handle sequence diagrams", async () => {
@@ -103,7 +209,633 @@ sequenceDiagram
 `;
       const result = await converter.convert(markdown, { enableMermaid: true });
 
-      expect(result).toBeInstanceOf(Buffer);
+      expect(await mediaFiles(result)).toHaveLength(1);
+    });
+
+    it("should accept attributes on the mermaid fence", async () => {
+      const markdown = `
+\`\`\`mermaid {width=60% theme=forest caption="Login flow"}
+flowchart LR
+    A --> B
+\`\`\`
+`;
+      const result = await converter.convert(markdown, {
+        enableMermaid: true,
+        mermaid: { theme: "neutral", background: "transparent" },
+      });
+
+      expect(await mediaFiles(result)).toHaveLength(1);
+      expect(await readDocxPart(result, "word/document.xml")).toContain("Login flow");
+    });
+
+    it("should write SVG labels as text that Word can draw", async () => {
+      const result = await converter.convert("```mermaid\nflowchart LR\n    A --> B\n```", {
+        enableMermaid: true,
+        mermaidFormat: "svg",
+      });
+
+      const svg = (await mediaFiles(result)).find((name) => name.endsWith(".svg"));
+      expect(svg).toBeDefined();
+      expect(await readDocxPart(result, svg!)).not.toContain("foreignObject");
+    });
+
+    it("should ignore a browser that fails to close when idle", async () => {
+      const idle = new MdToDocxConverter({ mermaid: { idleTimeout: 10 }, cache: { dir: cacheDir } });
+      mermaidStub.closeError = new Error("Browser crashed");
+
+      await idle.convert("```mermaid\nflowchart LR\n    A --> B\n```", { enableMermaid: true });
+      // An unhandled rejection would fail the run
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(mermaidStub.closes).toBe(1);
+    });
+
+    it("should prune the cache after the documents that use it are built", async () => {
+      const small = new MdToDocxConverter({ cache: { dir: cacheDir, maxSize: 1 } });
+      const diagram = (label: string) => `\`\`\`mermaid\nflowchart LR\n    A --> ${label}\n\`\`\``;
+
+      try {
+        const results = await Promise.all(
+          ["B", "C"].map((label) => small.convert(diagram(label), { enableMermaid: true }))
+        );
+        for (const result of results) {
+          expect(await mediaFiles(result)).toHaveLength(1);
+        }
+
+        // Diagrams of earlier runs go once the cache is over its size
+        await small.convert(diagram("D"), { enableMermaid: true });
+        expect(new MermaidCache({ dir: cacheDir }).stats().files).toBe(1);
+      } finally {
+        await small.close();
+      }
+    });
+
+    it("should throw for a missing mermaid config file", async () => {
+      await expect(
+        converter.convert("```mermaid\nflowchart LR\n    A --> B\n```", {
+          enableMermaid: true,
+          mermaid: { configFile: "/non/existent/mermaid.json" },
+        })
+      ).rejects.toThrow("Mermaid config file not found");
+    });
+
+    it("should render several diagrams through a shared renderer", async () => {
+      const pooled = new MdToDocxConverter({ mermaid: { concurrency: 2, idleTimeout: 10 }, cache: { dir: cacheDir } });
+      const diagram = (label: string) => `\`\`\`mermaid\nflowchart LR\n    A --> ${label}\n\`\`\``;
+      const markdown = ["# Diagrams", diagram("B"), diagram("C"), diagram("D")].join("\n\n");
+
+      try {
+        const result = await pooled.convert(markdown, { enableMermaid: true });
+        expect(await mediaFiles(result)).toHaveLength(3);
+        expect(mermaidStub.launches).toBe(1);
+        expect(mermaidStub.maxActive).toBe(2);
+
+        // Closed when idle, launched again for the next diagram
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        expect(mermaidStub.closes).toBe(1);
+        await pooled.convert(diagram("E"), { enableMermaid: true });
+        expect(mermaidStub.launches).toBe(2);
+      } finally {
+        await pooled.close();
+      }
+    });
+  });
+
+  describe("mermaid errors", () => {
+    const testDir = path.join(process.cwd(), "tests", "fixtures", "mermaid-errors");
+    const inputFile = path.join(testDir, "broken.md");
+    const markdown = "# Broken\n\n```mermaid {width=50%}\nthis is not a diagram\n```\n";
+
+    beforeEach(() => {
+      fs.mkdirSync(testDir, { recursive: true });
+      fs.writeFileSync(inputFile, markdown);
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it("should keep the source as a code block and report the failure", async () => {
+      const result = await converter.convertFile(inputFile, path.join(testDir, "out.docx"), { enableMermaid: true });
+
+      expect(result.warnings).toHaveLength(1);
+      expect(result.warnings[0].file).toBe(inputFile);
+      expect(result.warnings[0].message).toContain("Mermaid diagram at line 3 failed to render");
+      const document = await readDocxPart(fs.readFileSync(result.outputPath), "word/document.xml");
+      expect(document).toContain("this is not a diagram");
+    });
+
+    it("should report invalid diagram attributes as warnings", async () => {
+      fs.writeFileSync(inputFile, "```mermaid {width=wide size=2}\nthis is not a diagram\n```\n");
+      const result = await converter.convertFile(inputFile, path.join(testDir, "out.docx"), { enableMermaid: true });
+
+      expect(result.warnings.slice(0, 2)).toEqual([
+        {
+          file: inputFile,
+          message:
+            "Mermaid diagram at line 1: Ignoring invalid mermaid width: wide. Use a percentage or pixels, e.g. 60% or 400px.",
+        },
+        { file: inputFile, message: "Mermaid diagram at line 1: Ignoring unknown mermaid attribute: size" },
+      ]);
+    });
+
+    it("should report an invalid diagram scale as a warning", async () => {
+      fs.writeFileSync(inputFile, "```mermaid {scale=0}\nthis is not a diagram\n```\n");
+      const result = await converter.convertFile(inputFile, path.join(testDir, "out.docx"), { enableMermaid: true });
+
+      expect(result.warnings[0]).toEqual({
+        file: inputFile,
+        message: "Mermaid diagram at line 1: Ignoring invalid mermaid scale: 0. Use a positive number, e.g. 2.",
+      });
+    });
+
+    it("should insert a placeholder with the error message", async () => {
+      const result = await converter.convert(markdown, { enableMermaid: true, onMermaidError: "placeholder" });
+
+      const document = await readDocxPart(result, "word/document.xml");
+      expect(document).toContain("Mermaid diagram at line 3 failed to render");
+      expect(document).toContain('w:color="C00000"');
+      expect(document).not.toContain("this is not a diagram");
+    });
+
+    it("should fail with the file and line of the diagram", async () => {
+      await expect(
+        converter.convertFile(inputFile, path.join(testDir, "out.docx"), { enableMermaid: true, onMermaidError: "fail" })
+      ).rejects.toThrow(`${inputFile}: Mermaid diagram at line 3 failed to render`);
+      expect(fs.existsSync(path.join(testDir, "out.docx"))).toBe(false);
+    });
+  });
+
+  describe("mermaid cache", () => {
+    const cacheDir = path.join(process.cwd(), "tests", "fixtures", "mermaid-cache");
+
+    beforeEach(() => {
+      fs.rmSync(cacheDir, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(cacheDir, { recursive: true, force: true });
+    });
+
+    it("should embed cached diagrams without rendering them", async () => {
+      const code = "flowchart LR\n    A --> B";
+      const cache = new MermaidCache({ dir: cacheDir });
+      const key = cache.key(code, resolveRenderSettings());
+      expect(cache.key(code, resolveRenderSettings({ theme: "dark" }))).not.toBe(key);
+
+      const png = await sharp({ create: { width: 8, height: 8, channels: 3, background: "#00aa00" } }).png().toBuffer();
+      cache.set(key, "png", png);
+
+      const cached = new MdToDocxConverter({ cache: { dir: cacheDir } });
+      const result = await cached.convert(`\`\`\`mermaid\n${code}\n\`\`\``, { enableMermaid: true });
+      const zip = await JSZip.loadAsync(result);
+      expect(Object.keys(zip.files).some((name) => name.startsWith("word/media/"))).toBe(true);
+    });
+
+    it("should find diagrams in any fence style and nesting", async () => {
+      const code = "flowchart LR\n    A --> B";
+      const cache = new MermaidCache({ dir: cacheDir });
+      const png = await sharp({ create: { width: 8, height: 8, channels: 3, background: "#00aa00" } }).png().toBuffer();
+      cache.set(cache.key(code, resolveRenderSettings()), "png", png);
+
+      const markdown = [
+        "~~~mermaid\n" + code + "\n~~~",
+        "````mermaid {caption=\"Nested fences\"}\n" + code + "\n````",
+        "- item\n\n  ```mermaid\n  " + code.replace("\n", "\n  ") + "\n  ```",
+        "> ```mermaid\n> " + code.replace("\n", "\n> ") + "\n> ```",
+        "```mermaid\r\n" + code.replace("\n", "\r\n") + "\r\n```",
+        "````markdown\n```mermaid\nnot a diagram\n```\n````",
+      ].join("\n\n");
+      const cached = new MdToDocxConverter({ cache: { dir: cacheDir } });
+      const result = await cached.convert(markdown, { enableMermaid: true });
+
+      const document = await readDocxPart(result, "word/document.xml");
+      expect(document.match(/<pic:pic /g)).toHaveLength(5);
+      expect(document).toContain('descr="Nested fences"');
+      expect(document).toContain("not a diagram");
+    });
+
+    it("should prune by age and size and clear the cache", () => {
+      const cache = new MermaidCache({ dir: cacheDir, maxSize: 1500, maxAge: 24 * 60 * 60 * 1000 });
+      const old = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+      const keys = ["expired", "a", "b", "c"].map((code) => cache.key(code, resolveRenderSettings()));
+      for (const [index, key] of keys.entries()) {
+        const file = cache.set(key, "png", Buffer.alloc(1000));
+        const time = index === 0 ? old : new Date(Date.now() - (10 - index) * 1000);
+        fs.utimesSync(file, time, time);
+      }
+
+      // The expired file goes first, then the least recently used ones until 1500 bytes fit
+      expect(cache.prune()).toBe(3);
+      expect(fs.readdirSync(cacheDir)).toEqual([`${keys[3]}.png`]);
+      expect(cache.stats()).toMatchObject({ files: 1, size: 1000 });
+
+      expect(cache.clear()).toBe(1);
+      expect(cache.stats()).toEqual({ dir: cacheDir, files: 0, size: 0 });
+    });
+
+    it("should leave other files in the cache directory alone", () => {
+      const cache = new MermaidCache({ dir: cacheDir, maxAge: 24 * 60 * 60 * 1000 });
+      const old = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+      const key = cache.key("flowchart LR", resolveRenderSettings());
+      fs.mkdirSync(cacheDir, { recursive: true });
+      for (const name of ["notes.txt", "diagram.png", `${key}.png.123.tmp`]) {
+        fs.writeFileSync(path.join(cacheDir, name), "");
+        fs.utimesSync(path.join(cacheDir, name), old, old);
+      }
+
+      // Only the stale temp file belongs to the cache
+      expect(cache.prune()).toBe(1);
+      cache.set(key, "svg", Buffer.from("<svg/>"));
+      expect(cache.clear()).toBe(1);
+      expect(fs.readdirSync(cacheDir).sort()).toEqual(["diagram.png", "notes.txt"]);
+    });
+
+    it("should not prune files in use", () => {
+      const cache = new MermaidCache({ dir: cacheDir, maxSize: 0 });
+      const files = ["a", "b"].map((code) =>
+        cache.set(cache.key(code, resolveRenderSettings()), "png", Buffer.alloc(10))
+      );
+
+      expect(cache.prune(new Set([files[0]]))).toBe(1);
+      expect(fs.readdirSync(cacheDir)).toEqual([path.basename(files[0])]);
+    });
+  });
+
+  describe("containsMermaid", () => {
+    it("should follow CommonMark fence rules", () => {
+      expect(containsMermaid("~~~mermaid\ngraph TD\n~~~")).toBe(true);
+      expect(containsMermaid("```mermaid {width=50%}\r\ngraph TD\r\n```")).toBe(true);
+      expect(containsMermaid("> - ```mermaid\n>   graph TD\n>   ```")).toBe(true);
+      expect(containsMermaid("````md\n```mermaid\ngraph TD\n```\n````")).toBe(false);
+      expect(containsMermaid("```js\nconst fence = '```mermaid';\n```")).toBe(false);
+    });
+  });
+
+  describe("watchedFiles", () => {
+    const testDir = path.join(process.cwd(), "tests", "fixtures", "watch");
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it("should list the Markdown files of a directory and their local images", () => {
+      fs.mkdirSync(testDir, { recursive: true });
+      fs.writeFileSync(
+        path.join(testDir, "a.md"),
+        "![Logo](img/logo%20big.png)\n\n![Remote](https://example.com/x.png)\n\n![Ref][chart]\n\n[chart]: ../chart.svg\n"
+      );
+      fs.writeFileSync(path.join(testDir, "b.md"), "# B\n");
+      fs.writeFileSync(path.join(testDir, "notes.txt"), "");
+
+      expect(watchedFiles(testDir).sort()).toEqual(
+        [
+          path.join(testDir, "a.md"),
+          path.join(testDir, "b.md"),
+          path.join(testDir, "img", "logo big.png"),
+          path.join(testDir, "..", "chart.svg"),
+        ].sort()
+      );
+    });
+
+    it("should keep watching after a failed build", async () => {
+      fs.mkdirSync(testDir, { recursive: true });
+      fs.writeFileSync(path.join(testDir, "a.md"), "# A\n");
+      let builds = 0;
+      const stop = watch(
+        testDir,
+        async () => {
+          builds++;
+          if (builds === 1) throw new Error("Build failed");
+        },
+        { debounce: 10 }
+      );
+
+      try {
+        await vi.waitFor(() => expect(builds).toBe(1));
+        // Let the watchers start before the change
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        fs.writeFileSync(path.join(testDir, "a.md"), "# A again\n");
+        await vi.waitFor(() => expect(builds).toBe(2));
+      } finally {
+        stop();
+      }
+    });
+
+    it("should rebuild for Markdown files added to a new folder", async () => {
+      fs.mkdirSync(testDir, { recursive: true });
+      fs.writeFileSync(path.join(testDir, "a.md"), "# A\n");
+      let builds = 0;
+      const stop = watch(testDir, async () => void builds++, { debounce: 10, recursive: true });
+
+      try {
+        await vi.waitFor(() => expect(builds).toBe(1));
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        fs.mkdirSync(path.join(testDir, "guide"));
+        await vi.waitFor(() => expect(builds).toBe(2));
+        // The new folder is watched by now
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        fs.writeFileSync(path.join(testDir, "guide", "start.md"), "# Start\n");
+        await vi.waitFor(() => expect(builds).toBe(3));
+      } finally {
+        stop();
+      }
+    });
+  });
+
+  describe("project config", () => {
+    const testDir = path.join(process.cwd(), "tests", "fixtures", "project");
+
+    beforeEach(() => {
+      fs.mkdirSync(path.join(testDir, "docs", "part"), { recursive: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it("should find the nearest config file and apply a profile with paths relative to it", () => {
+      const configFile = path.join(testDir, "mermadoc.config.yaml");
+      fs.writeFileSync(
+        configFile,
+        [
+          "referenceDocx: templates/base.docx",
+          "toc: { depth: 2 }",
+          "tables: { borders: horizontal }",
+          "profiles:",
+          "  print:",
+          "    toc: { title: Contents }",
+          "    codeGrammars: [grammars/pipeline.json]",
+        ].join("\n")
+      );
+
+      expect(findProjectConfig(path.join(testDir, "docs", "part", "a.md"))).toBe(configFile);
+      expect(loadProjectConfig(configFile, "print")).toEqual({
+        referenceDocx: path.join(testDir, "templates", "base.docx"),
+        toc: { depth: 2, title: "Contents" },
+        tables: { borders: "horizontal" },
+        codeGrammars: [path.join(testDir, "grammars", "pipeline.json")],
+      });
+      expect(() => loadProjectConfig(configFile, "web")).toThrow('Unknown profile "web"');
+    });
+
+    it("should list every invalid option", () => {
+      const configFile = path.join(testDir, "mermadoc.config.json");
+      fs.writeFileSync(configFile, JSON.stringify({ tocc: true, tables: { borders: "dotted" }, toc: { depth: "2" } }));
+
+      expect(() => loadProjectConfig(configFile)).toThrow(
+        [
+          `Invalid config file ${configFile}:`,
+          "  - tocc: unknown option",
+          '  - tables.borders: expected one of: all, horizontal, outer, none, got "dotted"',
+          '  - toc.depth: expected a number, got "2"',
+        ].join("\n")
+      );
+    });
+
+    it("should let later options override earlier ones", () => {
+      expect(
+        mergeOptions(
+          { toc: { depth: 2 }, codeGrammars: ["a.json"], separator: "hr" as const },
+          { toc: { depth: undefined, title: "Contents" }, codeGrammars: ["b.json"], separator: undefined }
+        )
+      ).toEqual({ toc: { depth: 2, title: "Contents" }, codeGrammars: ["b.json"], separator: "hr" });
+    });
+  });
+
+  describe("book manifest", () => {
+    const testDir = path.join(process.cwd(), "tests", "fixtures", "book");
+
+    beforeEach(() => {
+      fs.mkdirSync(path.join(testDir, "drafts"), { recursive: true });
+      for (const file of ["intro.md", "setup.md", "faq.md", "drafts/todo.md"]) {
+        fs.writeFileSync(path.join(testDir, file), `# ${path.basename(file, ".md")}\n`);
+      }
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it("should list parts and chapters from mermadoc.yaml", () => {
+      fs.writeFileSync(
+        path.join(testDir, "mermadoc.yaml"),
+        [
+          "chapters:",
+          "  - intro.md",
+          "  - part: Guide",
+          "    chapters:",
+          "      - { file: setup.md, separator: none }",
+          "      - drafts/todo.md",
+          "exclude: [drafts/**]",
+        ].join("\n")
+      );
+
+      expect(resolveBook(testDir)).toEqual({
+        manifest: path.join(testDir, "mermadoc.yaml"),
+        entries: [
+          { type: "chapter", file: path.join(testDir, "intro.md") },
+          { type: "part", title: "Guide" },
+          { type: "chapter", file: path.join(testDir, "setup.md"), level: 1, separator: "none" },
+        ],
+      });
+      // Without chapters, the directory's files are merged in natural order
+      const files = resolveBook(testDir, { manifest: false }).entries.map((entry) => entry.type === "chapter" && entry.file);
+      expect(files).toEqual(["faq.md", "intro.md", "setup.md"].map((file) => path.join(testDir, file)));
+
+      fs.writeFileSync(path.join(testDir, "mermadoc.yaml"), "chapters: [intro.md, missing.md]");
+      expect(() => resolveBook(testDir)).toThrow(`Chapter file not found: ${path.join(testDir, "missing.md")}`);
+    });
+
+    it("should walk subfolders in natural order with folder headings", () => {
+      for (const file of ["10-api/README.md", "10-api/2-auth.md", "10-api/endpoints/users.md", "2-guide/b.md"]) {
+        fs.mkdirSync(path.join(testDir, path.dirname(file)), { recursive: true });
+        fs.writeFileSync(path.join(testDir, file), "# Title\n");
+      }
+
+      const options = { recursive: true, folderHeadings: true, exclude: ["drafts/**", "faq.md"] };
+      const { entries } = resolveBook(testDir, options);
+      expect(entries).toEqual([
+        { type: "part", title: "Guide", depth: 1 },
+        { type: "chapter", file: path.join(testDir, "2-guide", "b.md"), level: 1 },
+        { type: "chapter", file: path.join(testDir, "10-api", "README.md"), level: 0 },
+        { type: "chapter", file: path.join(testDir, "10-api", "2-auth.md"), level: 1 },
+        { type: "part", title: "Endpoints", depth: 2 },
+        { type: "chapter", file: path.join(testDir, "10-api", "endpoints", "users.md"), level: 2 },
+        { type: "chapter", file: path.join(testDir, "intro.md"), level: 0 },
+        { type: "chapter", file: path.join(testDir, "setup.md"), level: 0 },
+      ]);
+
+      const apiOnly = resolveBook(testDir, { recursive: true, include: ["10-api/**"] }).entries;
+      expect(apiOnly.map((entry) => entry.type === "chapter" && path.basename(entry.file))).toEqual([
+        "README.md",
+        "2-auth.md",
+        "users.md",
+      ]);
+    });
+
+    it("should resolve the cover logo against the chapter that declares it", async () => {
+      fs.mkdirSync(path.join(testDir, "guide"));
+      fs.writeFileSync(path.join(testDir, "guide", "start.md"), "---\ntitle: Guide\nlogo: logo.png\n---\n\n# Start\n");
+      fs.writeFileSync(
+        path.join(testDir, "guide", "logo.png"),
+        await sharp({ create: { width: 40, height: 20, channels: 3, background: "#336699" } }).png().toBuffer()
+      );
+      const manifest = "chapters:\n  - part: Guide\n    chapters: [guide/start.md]\n";
+      fs.writeFileSync(path.join(testDir, "mermadoc.yaml"), manifest);
+      const outputFile = path.join(testDir, "book.docx");
+
+      await converter.convertDirectory(testDir, outputFile, { titlePage: true });
+
+      const xml = await readDocxPart(fs.readFileSync(outputFile), "word/document.xml");
+      expect(xml.indexOf("<w:drawing>")).toBeGreaterThan(-1);
+      expect(xml.indexOf("<w:drawing>")).toBeLessThan(xml.indexOf("<w:sectPr"));
+    });
+
+    it("should resolve a cover logo option against the working directory", async () => {
+      fs.mkdirSync(path.join(testDir, "docs"));
+      fs.writeFileSync(path.join(testDir, "docs", "a.md"), "---\ntitle: A\n---\n\n# A\n");
+      fs.writeFileSync(
+        path.join(testDir, "logo.png"),
+        await sharp({ create: { width: 40, height: 20, channels: 3, background: "#336699" } }).png().toBuffer()
+      );
+      const outputFile = path.join(testDir, "a.docx");
+
+      // As given with --title-logo
+      const logo = path.relative(process.cwd(), path.join(testDir, "logo.png"));
+      await converter.convertFile(path.join(testDir, "docs", "a.md"), outputFile, { titlePage: { logo } });
+
+      const xml = await readDocxPart(fs.readFileSync(outputFile), "word/document.xml");
+      expect(xml.indexOf("<w:drawing>")).toBeGreaterThan(-1);
+    });
+
+    it("should read chapters and parts from SUMMARY.md", async () => {
+      fs.writeFileSync(
+        path.join(testDir, "SUMMARY.md"),
+        [
+          "# Summary",
+          "",
+          "- [Intro](intro.md)",
+          "",
+          "## Reference",
+          "",
+          "- [FAQ](faq.md)",
+          "  - [Later]()",
+          "- [Site](https://example.com)",
+        ].join("\n")
+      );
+      const outputFile = path.join(testDir, "book.docx");
+
+      await converter.convertDirectory(testDir, outputFile);
+
+      const xml = await readDocxPart(fs.readFileSync(outputFile), "word/document.xml");
+      const order = ["intro", "Reference", "faq"].map((text) => xml.indexOf(`>${text}<`));
+      expect(order.every((index) => index >= 0)).toBe(true);
+      expect(order).toEqual([...order].sort((a, b) => a - b));
+      expect(xml).not.toContain(">setup<");
+    });
+  });
+
+  describe("heading levels", () => {
+    const testDir = path.join(process.cwd(), "tests", "fixtures", "headings");
+
+    beforeEach(() => {
+      fs.mkdirSync(testDir, { recursive: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it("should shift each file's headings and add missing chapter headings", async () => {
+      const files = {
+        "a.md": "# Alpha\n\n## Details\n",
+        "b.md": "---\ntitle: Beta\n---\n\nNo heading here.\n",
+        "c.md": "### Fixes\n\n#### Parser\n",
+        "04-release_notes.md": "Plain text.\n",
+      };
+      for (const [name, content] of Object.entries(files)) {
+        fs.writeFileSync(path.join(testDir, name), content);
+      }
+      const outputFile = path.join(testDir, "out.docx");
+
+      await converter.convertFiles(
+        Object.keys(files).map((name) => path.join(testDir, name)),
+        outputFile,
+        { headings: { offset: 1, normalize: true, chapterTitles: true } }
+      );
+
+      // H1 uses the Title style, H2 is Heading1 and so on
+      const xml = await readDocxPart(fs.readFileSync(outputFile), "word/document.xml");
+      const headings = [...xml.matchAll(/<w:pStyle w:val="(Title|Heading\d)"\/>.*?<w:t[^>]*>([^<]*)<\/w:t>/g)].map(
+        ([, style, text]) => `${style}:${text}`
+      );
+      expect(headings).toEqual([
+        "Heading1:Alpha",
+        "Heading2:Details",
+        "Heading1:Beta",
+        "Heading1:Fixes",
+        "Heading2:Parser",
+        "Heading1:Release notes",
+      ]);
+    });
+  });
+
+  describe("convertBatch", () => {
+    const testDir = path.join(process.cwd(), "tests", "fixtures", "batch");
+    const outputDir = path.join(testDir, "out");
+    const square = (size: number) =>
+      sharp({ create: { width: size, height: size, channels: 3, background: "#00aa00" } }).png().toBuffer();
+
+    beforeEach(async () => {
+      fs.mkdirSync(path.join(testDir, "docs", "api"), { recursive: true });
+      fs.writeFileSync(path.join(testDir, "docs", "intro.md"), "# Intro\n\n![Logo](logo.png)\n");
+      fs.writeFileSync(path.join(testDir, "docs", "logo.png"), await square(8));
+      fs.writeFileSync(path.join(testDir, "docs", "api", "users.md"), "# Users\n");
+      fs.writeFileSync(path.join(testDir, "docs", "notes.txt"), "");
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it("should mirror files into the output folder and skip unchanged ones", async () => {
+      const converter = new MdToDocxConverter({ cache: { dir: path.join(testDir, "cache") } });
+      const first = await convertBatch(converter, path.join(testDir, "docs", "**", "*.md"), outputDir);
+      expect(first.items.map((item) => path.relative(outputDir, item.output))).toEqual([
+        path.join("api", "users.docx"),
+        "intro.docx",
+      ]);
+      expect(first.converted).toBe(2);
+      expect(fs.existsSync(path.join(outputDir, "api", "users.docx"))).toBe(true);
+      // The run's state is kept in the cache, not next to the documents
+      expect(fs.readdirSync(outputDir).sort()).toEqual(["api", "intro.docx"]);
+
+      // Rewriting the same content only changes the modification time
+      fs.writeFileSync(path.join(testDir, "docs", "intro.md"), "# Intro\n\n![Logo](logo.png)\n");
+      fs.writeFileSync(path.join(testDir, "docs", "api", "users.md"), "# Users\n\nUpdated.\n");
+      const second = await convertBatch(converter, path.join(testDir, "docs"), outputDir, { concurrency: 1 });
+      expect(second.items.map((item) => item.status)).toEqual(["converted", "skipped"]);
+
+      // A changed image converts the file that shows it
+      fs.writeFileSync(path.join(testDir, "docs", "logo.png"), await square(16));
+      const third = await convertBatch(converter, path.join(testDir, "docs"), outputDir);
+      expect(third.items.map((item) => item.status)).toEqual(["skipped", "converted"]);
+
+      const forced = await convertBatch(converter, path.join(testDir, "docs"), outputDir, { force: true });
+      expect(forced).toMatchObject({ converted: 2, skipped: 0, failed: 0 });
+    });
+
+    it("should list the files the options name as absolute paths", () => {
+      expect(
+        optionFiles({
+          referenceDocx: "template.docx",
+          titlePage: { logo: "assets/logo.png" },
+          codeTheme: "theme.json",
+          codeGrammars: ["grammar.json"],
+        })
+      ).toEqual(["template.docx", "assets/logo.png", "theme.json", "grammar.json"].map((file) => path.resolve(file)));
+      const named = optionFiles({ titlePage: { logo: "https://example.com/logo.png" }, codeTheme: "github-dark" });
+      expect(named).toEqual([]);
     });
   });
 
@@ -216,4 +948,585 @@ sequenceDiagram
       ).rejects.toThrow("Input file not found");
     });
   });
+
+  describe("referenceDocx", () => {
+    const testDir = path.join(process.cwd(), "tests", "fixtures");
+    const referenceFile = path.join(testDir, "reference.docx");
+
+    beforeEach(async () => {
+      // Build a reference document from a generated one with a custom style, theme and landscape page
+      const zip = await JSZip.loadAsync(await converter.convert("# Template"));
+      const styles = await zip.file("word/styles.xml")!.async("string");
+      zip.file(
+        "word/styles.xml",
+        styles.replace(
+          "</w:styles>",
+          '<w:style w:type="paragraph" w:styleId="SourceCode"><w:name w:val="Source Code"/></w:style></w:styles>'
+        )
+      );
+      const document = await zip.file("word/document.xml")!.async("string");
+      zip.file(
+        "word/document.xml",
+        document.replace(
+          /<w:pgSz[^>]*\/>/,
+          '<w:pgSz w:w="16838" w:h="11906" w:orient="landscape"/>'
+        )
+      );
+      zip.file("word/theme/theme1.xml", '<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" name="Company"/>');
+      fs.writeFileSync(referenceFile, await zip.generateAsync({ type: "nodebuffer" }));
+    });
+
+    it("should apply styles, page setup and theme from the reference", async () => {
+      const result = await converter.convert("# Title\n\n```js\nconst x = 1;\n```", {
+        referenceDocx: referenceFile,
+        styleMap: { code: "SourceCode" },
+      });
+
+      expect(await readDocxPart(result, "word/styles.xml")).toContain('w:styleId="SourceCode"');
+      const document = await readDocxPart(result, "word/document.xml");
+      expect(document).toContain('<w:pStyle w:val="SourceCode"/>');
+      expect(document).toMatch(/<w:pgSz w:w="16838" w:h="11906" w:orient="landscape"/);
+      expect(await readDocxPart(result, "word/theme/theme1.xml")).toContain('name="Company"');
+      expect(await readDocxPart(result, "[Content_Types].xml")).toContain("/word/theme/theme1.xml");
+    });
+
+    it("should throw when a mapped style is missing from the reference", async () => {
+      await expect(
+        converter.convert("text", { referenceDocx: referenceFile, styleMap: { table: "NoSuchStyle" } })
+      ).rejects.toThrow('Style "NoSuchStyle" for table not found');
+    });
+
+    it("should throw for non-existent reference document", async () => {
+      await expect(
+        converter.convert("text", { referenceDocx: "/non/existent/reference.docx" })
+      ).rejects.toThrow("Reference document not found");
+    });
+  });
+
+  describe("toc", () => {
+    it("should insert a populated TOC field at the start of the document", async () => {
+      const markdown = "# Guide\n\n## Install\n\n### Details\n\n#### Too Deep\n\nText.";
+      const result = await converter.convert(markdown, { toc: true });
+
+      const document = await readDocxPart(result, "word/document.xml");
+      expect(document).toContain("TOC \\t &quot;Title,1,Heading1,2,Heading2,3&quot; \\h \\z");
+      expect(document).toContain("Table of Contents");
+      expect(document).toContain('<w:hyperlink w:anchor="install" w:history="1">');
+      expect(document).not.toContain('w:anchor="too-deep"');
+      expect(document.indexOf("Table of Contents")).toBeLessThan(document.indexOf(">Guide<"));
+      expect(document.match(/w:fldCharType="begin"/g)).toHaveLength(1);
+      expect(await readDocxPart(result, "word/settings.xml")).toContain("w:updateFields");
+    });
+
+    it("should place the TOC at the [[toc]] marker with custom title and depth", async () => {
+      const markdown = "# Guide\n\nIntro text.\n\n[[toc]]\n\n## Install\n\n### Details";
+      const result = await converter.convert(markdown, { toc: { depth: 2, title: "Contents" } });
+
+      const document = await readDocxPart(result, "word/document.xml");
+      expect(document).not.toContain("[[toc]]");
+      expect(document).toContain("TOC \\t &quot;Title,1,Heading1,2&quot;");
+      expect(document.indexOf("Intro text.")).toBeLessThan(document.indexOf("Contents"));
+      expect(document).not.toContain('w:anchor="details"');
+    });
+  });
+
+  describe("front matter", () => {
+    it("should write front matter to core and custom document properties", async () => {
+      const markdown = `---
+title: Design Spec
+author: Jane Doe
+keywords: [api, design]
+lastModifiedBy: CI
+project: Apollo
+---
+
+# Body`;
+      const result = await converter.convert(markdown);
+
+      const core = await readDocxPart(result, "docProps/core.xml");
+      expect(core).toContain("<dc:title>Design Spec</dc:title>");
+      expect(core).toContain("<dc:creator>Jane Doe</dc:creator>");
+      expect(core).toContain("<cp:keywords>api, design</cp:keywords>");
+      expect(core).toContain("<cp:lastModifiedBy>CI</cp:lastModifiedBy>");
+      expect(await readDocxPart(result, "docProps/custom.xml")).toMatch(/name="project"[\s\S]*Apollo/);
+    });
+
+    it("should let metadata option override front matter", async () => {
+      const result = await converter.convert("---\ntitle: From File\n---\n\nText", {
+        metadata: { title: "From Option" },
+      });
+
+      expect(await readDocxPart(result, "docProps/core.xml")).toContain("<dc:title>From Option</dc:title>");
+    });
+
+    it("should report invalid front matter as a warning", async () => {
+      const testDir = path.join(process.cwd(), "tests", "fixtures", "frontmatter-invalid");
+      const inputFile = path.join(testDir, "doc.md");
+      fs.mkdirSync(testDir, { recursive: true });
+      fs.writeFileSync(inputFile, "---\ntitle: [unclosed\n---\n\n# Doc");
+
+      const result = await converter.convertFile(inputFile, path.join(testDir, "doc.docx"));
+
+      expect(result.warnings).toHaveLength(1);
+      expect(result.warnings[0]).toMatchObject({ file: inputFile });
+      expect(result.warnings[0].message).toMatch(/^Ignoring invalid front matter: /);
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it("should use the first merged file's front matter and drop the others", async () => {
+      const testDir = path.join(process.cwd(), "tests", "fixtures", "frontmatter-test");
+      fs.rmSync(testDir, { recursive: true, force: true });
+      fs.mkdirSync(testDir, { recursive: true });
+      fs.writeFileSync(path.join(testDir, "01-a.md"), "---\ntitle: Book\n---\n\n# A");
+      fs.writeFileSync(path.join(testDir, "02-b.md"), "---\ntitle: Chapter B\n---\n\n# B");
+      const outputFile = path.join(testDir, "merged.docx");
+
+      await converter.convertDirectory(testDir, outputFile);
+
+      const result = fs.readFileSync(outputFile);
+      expect(await readDocxPart(result, "docProps/core.xml")).toContain("<dc:title>Book</dc:title>");
+      expect(await readDocxPart(result, "word/document.xml")).not.toContain("Chapter B");
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+  });
+
+  describe("titlePage", () => {
+    const markdown = `---
+title: Payment Service
+subtitle: Technical Specification
+version: 1.2
+author: Jane Doe
+classification: Internal
+---
+
+# Overview
+
+Body text.`;
+
+    it("should render a cover page section from front matter", async () => {
+      const result = await converter.convert(markdown, { titlePage: true });
+
+      const document = await readDocxPart(result, "word/document.xml");
+      expect(document.match(/<w:sectPr/g)).toHaveLength(2);
+      expect(document).toContain('<w:vAlign w:val="center"/>');
+      expect(document).toContain(">Version 1.2<");
+      expect(document.indexOf("Internal")).toBeLessThan(document.indexOf("Body text."));
+      expect(document.indexOf("<w:sectPr")).toBeLessThan(document.indexOf("Overview"));
+    });
+
+    it("should follow a custom layout and include the logo", async () => {
+      const logoFile = path.join(process.cwd(), "tests", "fixtures", "logo.png");
+      fs.writeFileSync(
+        logoFile,
+        await sharp({ create: { width: 40, height: 20, channels: 3, background: "#336699" } }).png().toBuffer()
+      );
+
+      const result = await converter.convert(markdown, {
+        titlePage: { logo: logoFile, layout: [{ key: "title", size: 60 }, { key: "author", prefix: "By " }] },
+      });
+      fs.rmSync(logoFile);
+
+      const document = await readDocxPart(result, "word/document.xml");
+      expect(document).toContain(">By Jane Doe<");
+      expect(document).not.toContain("Technical Specification");
+      expect(document).toContain("<w:drawing>");
+    });
+  });
+
+  describe("image paths", () => {
+    const testDir = path.join(process.cwd(), "tests", "fixtures", "images-test");
+
+    beforeEach(async () => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+      const png = await sharp({ create: { width: 8, height: 8, channels: 3, background: "#00aa00" } }).png().toBuffer();
+      for (const chapter of ["part1", "part2"]) {
+        fs.mkdirSync(path.join(testDir, chapter, "img"), { recursive: true });
+        fs.writeFileSync(path.join(testDir, chapter, "img", "arch.png"), png);
+        fs.writeFileSync(path.join(testDir, chapter, "chapter.md"), `# ${chapter}\n\n![Architecture](img/arch.png)`);
+      }
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it("should resolve image paths against each merged file's directory", async () => {
+      const outputFile = path.join(testDir, "merged.docx");
+      await converter.convertFiles(
+        [path.join(testDir, "part1", "chapter.md"), path.join(testDir, "part2", "chapter.md")],
+        outputFile
+      );
+
+      const document = await readDocxPart(fs.readFileSync(outputFile), "word/document.xml");
+      expect(document.match(/<w:drawing>/g)).toHaveLength(2);
+    });
+
+    it("should resolve image paths against the baseDir option", async () => {
+      const result = await converter.convert("![Architecture](img/arch.png)", {
+        baseDir: path.join(testDir, "part1"),
+      });
+
+      expect(await readDocxPart(result, "word/document.xml")).toContain("<w:drawing>");
+    });
+
+    it("should embed SVG images with a PNG fallback", async () => {
+      const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="40" height="20"><rect width="40" height="20" fill="#00aa00"/></svg>';
+      fs.writeFileSync(path.join(testDir, "part1", "img", "vector.svg"), svg);
+
+      const result = await converter.convert("![Vector](img/vector.svg)", {
+        baseDir: path.join(testDir, "part1"),
+      });
+
+      const zip = await JSZip.loadAsync(result);
+      const media = Object.keys(zip.files).filter((name) => name.startsWith("word/media/"));
+      expect(media.some((name) => name.endsWith(".svg"))).toBe(true);
+      expect(media.some((name) => name.endsWith(".png"))).toBe(true);
+      expect(await readDocxPart(result, "word/document.xml")).toContain("asvg:svgBlip");
+    });
+  });
+
+  describe("figures", () => {
+    const testDir = path.join(process.cwd(), "tests", "fixtures", "figures-test");
+
+    beforeEach(async () => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+      fs.mkdirSync(testDir, { recursive: true });
+      const png = await sharp({ create: { width: 8, height: 8, channels: 3, background: "#0000aa" } }).png().toBuffer();
+      fs.writeFileSync(path.join(testDir, "chart.png"), png);
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it("should add numbered captions to images with a title", async () => {
+      const markdown = [
+        '![Chart](chart.png "Quarterly revenue")',
+        "![No caption](chart.png)",
+        '![Chart](chart.png "Costs")',
+        'Inline ![icon](chart.png "Not a figure") image.',
+      ].join("\n\n");
+      const result = await converter.convert(markdown, { baseDir: testDir, figures: true });
+
+      const document = await readDocxPart(result, "word/document.xml");
+      expect(document.match(/SEQ Figure \\\* ARABIC/g)).toHaveLength(2);
+      expect(document).toContain("Quarterly revenue");
+      expect(document).toContain('w:name="_Figure2"');
+      expect(document).not.toContain(": Not a figure");
+      expect(document).toContain('<w:pStyle w:val="Caption"/>');
+    });
+
+    it("should caption from alt text and insert a list of figures", async () => {
+      const markdown = "# Report\n\n[[lof]]\n\n![Architecture overview](chart.png)";
+      const result = await converter.convert(markdown, {
+        baseDir: testDir,
+        figures: { label: "Abbildung", fromAlt: true, listOfFigures: true },
+      });
+
+      const document = await readDocxPart(result, "word/document.xml");
+      expect(document).toContain("TOC \\h \\z \\c &quot;Abbildung&quot;");
+      expect(document).toContain('w:anchor="_Figure1"');
+      expect(document).toContain("Abbildung 1: Architecture overview");
+      expect(document).not.toContain("[[lof]]");
+    });
+  });
+
+  describe("code themes", () => {
+    const themeFile = path.join(process.cwd(), "tests", "fixtures", "code-theme.json");
+    const markdown = "```javascript\nconst x = 1;\n```\n\n```\nplain text\n```";
+
+    afterEach(() => {
+      fs.rmSync(themeFile, { force: true });
+    });
+
+    it("should keep the light gray background for the default theme", async () => {
+      const document = await readDocxPart(await converter.convert(markdown), "word/document.xml");
+      expect(document).toContain('w:fill="F6F8FA"');
+    });
+
+    it("should take background and text color from a bundled theme", async () => {
+      const result = await converter.convert(markdown, { codeTheme: "github-dark" });
+
+      const document = await readDocxPart(result, "word/document.xml");
+      expect(document).toContain('w:fill="24292e"');
+      // Plain code blocks use the theme's foreground
+      expect(document).toMatch(/<w:color w:val="e1e4e8"\/>.*plain text/);
+    });
+
+    it("should load a theme JSON file", async () => {
+      fs.mkdirSync(path.dirname(themeFile), { recursive: true });
+      fs.writeFileSync(
+        themeFile,
+        JSON.stringify({
+          name: "custom",
+          type: "dark",
+          colors: { "editor.background": "#102030", "editor.foreground": "#E0E0E0" },
+          tokenColors: [{ scope: ["keyword", "storage.type"], settings: { foreground: "#FF8800" } }],
+        })
+      );
+      const result = await converter.convert(markdown, { codeTheme: themeFile });
+
+      const document = await readDocxPart(result, "word/document.xml");
+      expect(document).toContain('w:fill="102030"');
+      expect(document).toContain('w:val="FF8800"');
+    });
+
+    it("should reject unknown themes", async () => {
+      await expect(converter.convert(markdown, { codeTheme: "no-such-theme" })).rejects.toThrow(
+        "Unknown code theme: no-such-theme"
+      );
+      await expect(converter.convert(markdown, { codeTheme: "toString" })).rejects.toThrow(
+        "Unknown code theme: toString"
+      );
+    });
+  });
+
+  describe("code languages", () => {
+    const testDir = path.join(process.cwd(), "tests", "fixtures", "code-languages");
+
+    beforeEach(() => {
+      fs.mkdirSync(testDir, { recursive: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it("should load any bundled language on first use", async () => {
+      const result = await converter.convert("```toml\n[server]\nport = 8080\n```");
+
+      const document = await readDocxPart(result, "word/document.xml");
+      // github-light colors numbers blue
+      expect(document).toMatch(/<w:color w:val="005CC5"\/>.*8080/);
+    });
+
+    it("should use custom grammars and aliases and warn about unknown languages", async () => {
+      const grammarFile = path.join(testDir, "pipeline.tmLanguage.json");
+      fs.writeFileSync(
+        grammarFile,
+        JSON.stringify({ scopeName: "source.pipeline", patterns: [{ match: "\\bstage\\b", name: "keyword.control" }] })
+      );
+      const inputFile = path.join(testDir, "doc.md");
+      fs.writeFileSync(inputFile, "```pl\nstage build\n```\n\n```nosuchlang\nx\n```\n\n```text\nplain\n```\n");
+
+      const result = await converter.convertFile(inputFile, path.join(testDir, "doc.docx"), {
+        codeGrammars: [grammarFile],
+        codeLanguageAliases: { pl: "pipeline" },
+      });
+
+      expect(result.warnings).toEqual([{ message: 'Unknown code language "nosuchlang", shown as plain text' }]);
+      const document = await readDocxPart(fs.readFileSync(result.outputPath), "word/document.xml");
+      expect(document).toMatch(/<w:color w:val="D73A49"\/>.*stage/);
+    });
+
+    it("should pass warnings of convert() to onWarning", async () => {
+      const warnings: ConversionWarning[] = [];
+      await converter.convert("```nosuchlang\nx\n```\n", { onWarning: (warning) => warnings.push(warning) });
+
+      expect(warnings).toEqual([{ message: 'Unknown code language "nosuchlang", shown as plain text' }]);
+    });
+
+    it("should not take inherited property names for languages", async () => {
+      const warnings: ConversionWarning[] = [];
+      await converter.convert("```constructor\nx\n```\n\n```pipeline\ny\n```\n", {
+        codeLanguageAliases: { pipeline: "constructor" },
+        onWarning: (warning) => warnings.push(warning),
+      });
+
+      expect(warnings).toEqual([
+        { message: 'Unknown code language "constructor", shown as plain text' },
+        { message: 'Unknown code language "pipeline", shown as plain text' },
+      ]);
+    });
+  });
+
+  describe("code annotations", () => {
+    it("should render a title bar, highlighted lines and line numbers from the fence meta", async () => {
+      const markdown = '```ts title="server.ts" {2-3} showLineNumbers=10\nconst a = 1;\nconst b = 2;\nconst c = 3;\n```';
+      const result = await converter.convert(markdown);
+
+      const document = await readDocxPart(result, "word/document.xml");
+      expect(document).toMatch(/w:fill="EAEEF2".*<w:b\/>.*server\.ts/);
+      expect(document.match(/w:fill="FFF8C5"/g)).toHaveLength(2);
+      expect(document).toContain(" 10 │ ");
+      expect(document).toContain(" 12 │ ");
+      expect(document).not.toContain("title=");
+    });
+
+    it("should stop highlighted ranges at the last line of the block", async () => {
+      const result = await converter.convert("```ts {2-100000000}\nconst a = 1;\nconst b = 2;\n```");
+
+      const document = await readDocxPart(result, "word/document.xml");
+      expect(document.match(/w:fill="FFF8C5"/g)).toHaveLength(1);
+    });
+
+    it("should shade added and removed lines of diff blocks", async () => {
+      const markdown = "```diff\n--- a/app.ts\n+++ b/app.ts\n-const port = 80;\n+const port = 8080;\n unchanged\n```";
+      const result = await converter.convert(markdown);
+
+      const document = await readDocxPart(result, "word/document.xml");
+      expect(document.match(/w:fill="E6FFEC"/g)).toHaveLength(1);
+      expect(document.match(/w:fill="FFEBE9"/g)).toHaveLength(1);
+    });
+  });
+
+  describe("code blocks", () => {
+    const markdown = '```ts title="app.ts"\nconst a = 1;\nconst b = 2;\n```';
+
+    it("should render a bordered single-cell table that does not split across pages", async () => {
+      const result = await converter.convert(markdown, { codeBlocks: { container: "table", keepTogether: true } });
+
+      const document = await readDocxPart(result, "word/document.xml");
+      expect(document.match(/<w:tbl>/g)).toHaveLength(1);
+      expect(document.match(/<w:cantSplit\/>/g)).toHaveLength(2);
+      expect(document).toContain('w:color="D0D7DE"');
+      // Title row, then the code row with the background
+      expect(document).toMatch(/w:fill="EAEEF2".*app\.ts.*w:fill="F6F8FA".*const/);
+    });
+
+    it("should box paragraphs, keep them together and shrink long lines", async () => {
+      const longLine = `const text = "${"x".repeat(100)}";`;
+      const result = await converter.convert(`\`\`\`ts\n${longLine}\nconst a = 1;\n\`\`\``, {
+        codeBlocks: { borderColor: "888888", padding: 6, keepTogether: true, overflow: "shrink" },
+      });
+
+      const document = await readDocxPart(result, "word/document.xml");
+      expect(document).toContain('w:color="888888" w:sz="4" w:space="6"');
+      expect(document.match(/<w:keepNext\/>/g)).toHaveLength(1);
+      expect(document.match(/<w:keepLines\/>/g)).toHaveLength(2);
+      expect(document).not.toContain('<w:sz w:val="20"/>');
+      expect(document).toContain('<w:sz w:val="14"/>');
+    });
+  });
+
+  describe("tables", () => {
+    const markdown = [
+      "Table: Quarterly revenue",
+      "",
+      "| Region | Revenue |",
+      "|:-------|--------:|",
+      "| Northern territories | 1,200 |",
+      "| South  | 950     |",
+      "| East   | 700     |",
+    ].join("\n");
+
+    it("should number tables with a caption line and repeat the header row", async () => {
+      const result = await converter.convert(markdown);
+
+      const document = await readDocxPart(result, "word/document.xml");
+      expect(document).toContain("SEQ Table \\* ARABIC");
+      expect(document).toContain(": Quarterly revenue");
+      expect(document).toContain('w:name="_Table1"');
+      expect(document).not.toContain("Table: Quarterly revenue");
+      expect(document).toContain("<w:tblHeader/>");
+      expect(document.indexOf("_Table1")).toBeLessThan(document.indexOf("<w:tbl>"));
+    });
+
+    it("should apply header fill, banded rows, border presets and column widths", async () => {
+      const result = await converter.convert(markdown, {
+        tables: { headerFill: "D9E2F3", bandedRows: true, borders: "horizontal", columnWidths: "content" },
+      });
+
+      const document = await readDocxPart(result, "word/document.xml");
+      expect(document).toContain('w:fill="D9E2F3"');
+      // Only the second body row is shaded
+      expect(document.match(/w:fill="F2F2F2"/g)).toHaveLength(2);
+      expect(document).toMatch(/<w:insideV w:val="none"/);
+      expect(document).toMatch(/<w:insideH w:val="single"/);
+      // The right-aligned number column is narrower than the text column
+      const [region, revenue] = [...document.matchAll(/<w:gridCol w:w="(\d+)"\/>/g)].map((match) => Number(match[1]));
+      expect(revenue).toBeLessThan(region);
+      expect(document).toContain('<w:jc w:val="right"/>');
+    });
+
+    it("should keep caption lines as text when captions are off", async () => {
+      const result = await converter.convert(markdown, { tables: { captions: false, repeatHeader: false } });
+
+      const document = await readDocxPart(result, "word/document.xml");
+      expect(document).toContain("Table: Quarterly revenue");
+      expect(document).not.toContain("<w:tblHeader/>");
+    });
+  });
+
+  describe("headerFooter", () => {
+    it("should render header and footer slots with tokens", async () => {
+      const result = await converter.convert("---\ntitle: Design Spec\n---\n\n# Chapter One", {
+        headerFooter: {
+          header: { left: "{title}", right: "{chapter}" },
+          footer: { center: "Page {page} of {pages}" },
+        },
+      });
+
+      const header = await readDocxPart(result, "word/header1.xml");
+      expect(header).toContain("Design Spec");
+      expect(header).toContain("STYLEREF &quot;Title&quot;");
+
+      const footer = await readDocxPart(result, "word/footer1.xml");
+      expect(footer).toContain("Page ");
+      expect(footer).toContain("PAGE");
+      expect(footer).toContain("NUMPAGES");
+
+      const document = await readDocxPart(result, "word/document.xml");
+      expect(document).toContain("<w:headerReference");
+      expect(document).not.toContain("<w:titlePg");
+    });
+
+    it("should leave the first page blank with differentFirstPage", async () => {
+      const result = await converter.convert("# Report", {
+        headerFooter: { footer: { right: "{page}" }, differentFirstPage: true },
+      });
+
+      const document = await readDocxPart(result, "word/document.xml");
+      expect(document).toContain("<w:titlePg");
+      expect(document).toContain('w:type="first"');
+    });
+  });
+
+  describe("cross-file links", () => {
+    const testDir = path.join(process.cwd(), "tests", "fixtures", "links-test");
+
+    beforeEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+      fs.mkdirSync(testDir, { recursive: true });
+      fs.writeFileSync(
+        path.join(testDir, "01-intro.md"),
+        "# Intro\n\n## Overview\n\nSee [setup](02-setup.md#install-guide), [chapter 2](02-setup.md) and [notes](../notes.md)."
+      );
+      fs.writeFileSync(
+        path.join(testDir, "02-setup.md"),
+        "# Setup\n\n## Overview\n\n## Install Guide\n\nBack to [overview](#overview) and [missing](01-intro.md#nope)."
+      );
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it("should rewrite links between merged files to internal links", async () => {
+      const outputFile = path.join(testDir, "merged.docx");
+      await converter.convertDirectory(testDir, outputFile);
+
+      const document = await readDocxPart(fs.readFileSync(outputFile), "word/document.xml");
+      expect(document).toContain('w:anchor="install-guide"');
+      expect(document).toContain('w:anchor="setup"');
+      // Repeated heading text gets a distinct bookmark in the second file
+      expect(document).toContain('w:name="overview-2"');
+      expect(document).toContain('w:anchor="overview-2"');
+    });
+
+    it("should report links to files outside the merged set", async () => {
+      const result = await converter.convertDirectory(testDir, path.join(testDir, "merged.docx"));
+
+      expect(result.warnings).toEqual([
+        {
+          file: path.join(testDir, "01-intro.md"),
+          message: 'Link "../notes.md" points to a file outside the merged set',
+        },
+        {
+          file: path.join(testDir, "02-setup.md"),
+          message: 'Link "01-intro.md#nope" points to a heading that does not exist',
+        },
+      ]);
+    });
+  });
 });